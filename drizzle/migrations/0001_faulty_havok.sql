@@ -0,0 +1,2 @@
+ALTER TABLE `messages` ADD `tool_calls` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `tool_call_id` text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+ALTER TABLE `conversations` ADD `active_message_id` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `parent_id` text;--> statement-breakpoint
+CREATE INDEX `message_parent_id` ON `messages` (`parent_id`);--> statement-breakpoint
+UPDATE `messages` SET `parent_id` = (
+	SELECT `previous`.`id` FROM `messages` AS `previous`
+	WHERE `previous`.`conversation_id` = `messages`.`conversation_id`
+		AND (
+			`previous`.`created_at` < `messages`.`created_at`
+			OR (`previous`.`created_at` = `messages`.`created_at` AND `previous`.`rowid` < `messages`.`rowid`)
+		)
+	ORDER BY `previous`.`created_at` DESC, `previous`.`rowid` DESC
+	LIMIT 1
+);--> statement-breakpoint
+UPDATE `conversations` SET `active_message_id` = (
+	SELECT `id` FROM `messages`
+	WHERE `messages`.`conversation_id` = `conversations`.`id`
+	ORDER BY `created_at` DESC, `rowid` DESC
+	LIMIT 1
+);
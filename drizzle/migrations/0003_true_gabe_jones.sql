@@ -0,0 +1,10 @@
+CREATE TABLE `summaries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`content` text NOT NULL,
+	`created_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `summary_conversation_id` ON `summaries` (`conversation_id`);--> statement-breakpoint
+CREATE INDEX `summary_message_id` ON `summaries` (`message_id`);
\ No newline at end of file
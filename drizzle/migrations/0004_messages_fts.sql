@@ -0,0 +1,25 @@
+-- Custom SQL migration file, put your code below! --
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	`content`,
+	content = 'messages',
+	content_rowid = 'rowid',
+	tokenize = 'unicode61 remove_diacritics 2'
+);--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages`
+WHEN new.`role` IN ('user', 'assistant')
+BEGIN
+	INSERT INTO `messages_fts` (`rowid`, `content`) VALUES (new.`rowid`, new.`content`);
+END;--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages`
+WHEN old.`role` IN ('user', 'assistant')
+BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `content`) VALUES ('delete', old.`rowid`, old.`content`);
+END;--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `content` ON `messages`
+WHEN new.`role` IN ('user', 'assistant')
+BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `content`) VALUES ('delete', old.`rowid`, old.`content`);
+	INSERT INTO `messages_fts` (`rowid`, `content`) VALUES (new.`rowid`, new.`content`);
+END;--> statement-breakpoint
+INSERT INTO `messages_fts` (`rowid`, `content`)
+SELECT `rowid`, `content` FROM `messages` WHERE `role` IN ('user', 'assistant');
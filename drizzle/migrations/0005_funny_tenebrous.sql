@@ -0,0 +1,7 @@
+CREATE TABLE `shares` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`created_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `share_conversation_id` ON `shares` (`conversation_id`);
\ No newline at end of file
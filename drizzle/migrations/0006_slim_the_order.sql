@@ -0,0 +1,7 @@
+CREATE TABLE `usage` (
+	`day` text PRIMARY KEY NOT NULL,
+	`requests` integer DEFAULT 0 NOT NULL,
+	`prompt_tokens` integer DEFAULT 0 NOT NULL,
+	`completion_tokens` integer DEFAULT 0 NOT NULL,
+	`audio_seconds` real DEFAULT 0 NOT NULL
+);
@@ -0,0 +1,10 @@
+CREATE TABLE `stream_events` (
+	`event_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`type` text NOT NULL,
+	`data` text NOT NULL,
+	`created_at` text,
+	PRIMARY KEY(`event_id`, `sequence`)
+);
+--> statement-breakpoint
+CREATE INDEX `stream_event_created_at` ON `stream_events` (`created_at`);
\ No newline at end of file
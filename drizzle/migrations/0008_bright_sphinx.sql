@@ -0,0 +1,9 @@
+CREATE TABLE `attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mime_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`data` text NOT NULL,
+	`created_at` text
+);
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `content_parts` text;
\ No newline at end of file
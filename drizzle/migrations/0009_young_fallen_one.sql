@@ -0,0 +1,22 @@
+CREATE TABLE `document_chunks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`document_id` text NOT NULL,
+	`conversation_id` text NOT NULL,
+	`chunk_index` integer NOT NULL,
+	`content` text NOT NULL,
+	`embedding` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `document_chunk_document_id` ON `document_chunks` (`document_id`);--> statement-breakpoint
+CREATE INDEX `document_chunk_conversation_id` ON `document_chunks` (`conversation_id`);--> statement-breakpoint
+CREATE TABLE `documents` (
+	`id` text PRIMARY KEY NOT NULL,
+	`conversation_id` text NOT NULL,
+	`name` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`chunk_count` integer NOT NULL,
+	`created_at` text
+);
+--> statement-breakpoint
+CREATE INDEX `document_conversation_id` ON `documents` (`conversation_id`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `memories` (
+	`id` text PRIMARY KEY NOT NULL,
+	`content` text NOT NULL,
+	`conversation_id` text,
+	`created_at` text
+);
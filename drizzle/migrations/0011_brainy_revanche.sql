@@ -0,0 +1,9 @@
+CREATE TABLE `settings` (
+	`id` integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	`default_model` text,
+	`tts_voice` text,
+	`generation` text,
+	`updated_at` text
+);
+--> statement-breakpoint
+ALTER TABLE `conversations` ADD `generation` text;
\ No newline at end of file
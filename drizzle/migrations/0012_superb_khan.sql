@@ -0,0 +1,13 @@
+CREATE TABLE `personas` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`system_prompt` text NOT NULL,
+	`model` text,
+	`generation` text,
+	`created_at` text,
+	`updated_at` text
+);
+--> statement-breakpoint
+ALTER TABLE `conversations` ADD `system_prompt` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `persona_id` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `model` text;
\ No newline at end of file
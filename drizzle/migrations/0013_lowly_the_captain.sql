@@ -0,0 +1,7 @@
+ALTER TABLE `messages` ADD `model` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `prompt_tokens` integer;--> statement-breakpoint
+ALTER TABLE `messages` ADD `completion_tokens` integer;--> statement-breakpoint
+ALTER TABLE `messages` ADD `time_to_first_token_ms` integer;--> statement-breakpoint
+ALTER TABLE `messages` ADD `latency_ms` integer;--> statement-breakpoint
+ALTER TABLE `messages` ADD `finish_reason` text;--> statement-breakpoint
+ALTER TABLE `messages` ADD `status` text;
\ No newline at end of file
@@ -0,0 +1,32 @@
+ALTER TABLE `messages` ADD `search_id` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `message_search_id` ON `messages` (`search_id`);--> statement-breakpoint
+DROP TRIGGER `messages_fts_insert`;--> statement-breakpoint
+DROP TRIGGER `messages_fts_delete`;--> statement-breakpoint
+DROP TRIGGER `messages_fts_update`;--> statement-breakpoint
+DROP TABLE `messages_fts`;--> statement-breakpoint
+UPDATE `messages` SET `search_id` = `rowid` WHERE `role` IN ('user', 'assistant');--> statement-breakpoint
+CREATE VIRTUAL TABLE `messages_fts` USING fts5(
+	`content`,
+	content = 'messages',
+	content_rowid = 'search_id',
+	tokenize = 'unicode61 remove_diacritics 2'
+);--> statement-breakpoint
+CREATE TRIGGER `messages_fts_insert` AFTER INSERT ON `messages`
+WHEN new.`role` IN ('user', 'assistant')
+BEGIN
+	UPDATE `messages` SET `search_id` = (SELECT ifnull(max(`search_id`), 0) + 1 FROM `messages`) WHERE `id` = new.`id`;
+	INSERT INTO `messages_fts` (`rowid`, `content`) SELECT `search_id`, `content` FROM `messages` WHERE `id` = new.`id`;
+END;--> statement-breakpoint
+CREATE TRIGGER `messages_fts_delete` AFTER DELETE ON `messages`
+WHEN old.`search_id` IS NOT NULL
+BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `content`) VALUES ('delete', old.`search_id`, old.`content`);
+END;--> statement-breakpoint
+CREATE TRIGGER `messages_fts_update` AFTER UPDATE OF `content` ON `messages`
+WHEN new.`search_id` IS NOT NULL
+BEGIN
+	INSERT INTO `messages_fts` (`messages_fts`, `rowid`, `content`) VALUES ('delete', old.`search_id`, old.`content`);
+	INSERT INTO `messages_fts` (`rowid`, `content`) VALUES (new.`search_id`, new.`content`);
+END;--> statement-breakpoint
+INSERT INTO `messages_fts` (`rowid`, `content`)
+SELECT `search_id`, `content` FROM `messages` WHERE `search_id` IS NOT NULL;
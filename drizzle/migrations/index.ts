@@ -1,9 +1,37 @@
 import journal from "./meta/_journal.json";
 import m0000 from "./0000_red_triathlon.sql";
+import m0001 from "./0001_faulty_havok.sql";
+import m0002 from "./0002_tough_morbius.sql";
+import m0003 from "./0003_true_gabe_jones.sql";
+import m0004 from "./0004_messages_fts.sql";
+import m0005 from "./0005_funny_tenebrous.sql";
+import m0006 from "./0006_slim_the_order.sql";
+import m0007 from "./0007_eminent_meteorite.sql";
+import m0008 from "./0008_bright_sphinx.sql";
+import m0009 from "./0009_young_fallen_one.sql";
+import m0010 from "./0010_sour_mother_askani.sql";
+import m0011 from "./0011_brainy_revanche.sql";
+import m0012 from "./0012_superb_khan.sql";
+import m0013 from "./0013_lowly_the_captain.sql";
+import m0014 from "./0014_serious_puppet_master.sql";
 
 export default {
 	journal,
 	migrations: {
 		m0000,
+		m0001,
+		m0002,
+		m0003,
+		m0004,
+		m0005,
+		m0006,
+		m0007,
+		m0008,
+		m0009,
+		m0010,
+		m0011,
+		m0012,
+		m0013,
+		m0014,
 	},
 };
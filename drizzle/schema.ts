@@ -1,4 +1,37 @@
-import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import {
+	index,
+	integer,
+	primaryKey,
+	real,
+	uniqueIndex,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+import type { ChatCompletionMessageToolCall } from "openai/resources/chat/completions";
+
+export type MessageContentPart =
+	| { type: "text"; text: string }
+	| { type: "image"; attachment_id: string };
+
+// Overrides of the generation defaults; unset fields fall through to the
+// next layer.
+export type GenerationParameters = {
+	temperature?: number;
+	topP?: number;
+	maxCompletionTokens?: number;
+	reasoningEffort?: "low" | "medium" | "high";
+};
+
+// Truncated answers hit the token limit; cancelled and errored ones keep
+// what was streamed before they stopped.
+export const MESSAGE_STATUSES = [
+	"complete",
+	"cancelled",
+	"error",
+	"truncated",
+] as const;
+
+export type MessageStatus = (typeof MESSAGE_STATUSES)[number];
 
 export const conversations = sqliteTable(
 	"conversations",
@@ -9,6 +42,14 @@ export const conversations = sqliteTable(
 		user_id: text().notNull(),
 		title: text(),
 		pinned: integer({ mode: "boolean" }).default(false),
+		active_message_id: text(),
+		system_prompt: text(),
+		// Persona the conversation was started from, if any. Its prompt, model
+		// and parameters are copied, so later edits to it don't apply.
+		persona_id: text(),
+		// Used when a request doesn't name a model.
+		model: text(),
+		generation: text({ mode: "json" }).$type<GenerationParameters>(),
 		created_at: text().$default(() => new Date().toISOString()),
 		updated_at: text().$default(() => new Date().toISOString()),
 	},
@@ -26,13 +67,165 @@ export const messages = sqliteTable(
 			.$default(() => crypto.randomUUID()),
 		user_id: text().notNull(),
 		conversation_id: text().notNull(),
-		role: text({ enum: ["user", "assistant"] }).notNull(),
+		parent_id: text(),
+		role: text({ enum: ["user", "assistant", "tool"] }).notNull(),
 		content: text().notNull(),
+		tool_calls: text({ mode: "json" }).$type<ChatCompletionMessageToolCall[]>(),
+		tool_call_id: text(),
+		// Set when the message has more than text; `content` still holds the
+		// text parts, for search and titles.
+		content_parts: text({ mode: "json" }).$type<MessageContentPart[]>(),
+		// How an assistant message was generated; null on other messages.
+		model: text(),
+		prompt_tokens: integer(),
+		completion_tokens: integer(),
+		time_to_first_token_ms: integer(),
+		latency_ms: integer(),
+		finish_reason: text(),
+		status: text({ enum: MESSAGE_STATUSES }),
+		// Key of the message in `messages_fts`, set by trigger for user and
+		// assistant messages. Unlike the implicit rowid it survives VACUUM.
+		search_id: integer(),
 		created_at: text().$default(() => new Date().toISOString()),
 		updated_at: text().$default(() => new Date().toISOString()),
 	},
 	(table) => [
 		index("message_conversation_id").on(table.conversation_id),
+		uniqueIndex("message_search_id").on(table.search_id),
 		index("message_user_id").on(table.user_id),
+		index("message_parent_id").on(table.parent_id),
 	],
 );
+
+export const summaries = sqliteTable(
+	"summaries",
+	{
+		id: text()
+			.primaryKey()
+			.$default(() => crypto.randomUUID()),
+		conversation_id: text().notNull(),
+		// Last message folded into the summary; it covers the path up to here.
+		message_id: text().notNull(),
+		content: text().notNull(),
+		created_at: text().$default(() => new Date().toISOString()),
+	},
+	(table) => [
+		index("summary_conversation_id").on(table.conversation_id),
+		index("summary_message_id").on(table.message_id),
+	],
+);
+
+export const shares = sqliteTable(
+	"shares",
+	{
+		// Also the KV key suffix of the snapshot, so it must be unguessable.
+		id: text()
+			.primaryKey()
+			.$default(() => crypto.randomUUID()),
+		conversation_id: text().notNull(),
+		created_at: text().$default(() => new Date().toISOString()),
+	},
+	(table) => [index("share_conversation_id").on(table.conversation_id)],
+);
+
+export const usage = sqliteTable("usage", {
+	// UTC date (YYYY-MM-DD) the counters belong to.
+	day: text().primaryKey(),
+	requests: integer().notNull().default(0),
+	prompt_tokens: integer().notNull().default(0),
+	completion_tokens: integer().notNull().default(0),
+	audio_seconds: real().notNull().default(0),
+});
+
+export const streamEvents = sqliteTable(
+	"stream_events",
+	{
+		event_id: text().notNull(),
+		sequence: integer().notNull(),
+		type: text().notNull(),
+		// The serialized event, exactly as it was sent.
+		data: text().notNull(),
+		created_at: text().$default(() => new Date().toISOString()),
+	},
+	(table) => [
+		primaryKey({ columns: [table.event_id, table.sequence] }),
+		index("stream_event_created_at").on(table.created_at),
+	],
+);
+
+export const attachments = sqliteTable("attachments", {
+	id: text()
+		.primaryKey()
+		.$default(() => crypto.randomUUID()),
+	mime_type: text().notNull(),
+	size: integer().notNull(),
+	// Base64, which is what models take images as anyway.
+	data: text().notNull(),
+	created_at: text().$default(() => new Date().toISOString()),
+});
+
+export const documents = sqliteTable(
+	"documents",
+	{
+		id: text()
+			.primaryKey()
+			.$default(() => crypto.randomUUID()),
+		conversation_id: text().notNull(),
+		name: text().notNull(),
+		mime_type: text().notNull(),
+		size: integer().notNull(),
+		chunk_count: integer().notNull(),
+		created_at: text().$default(() => new Date().toISOString()),
+	},
+	(table) => [index("document_conversation_id").on(table.conversation_id)],
+);
+
+export const documentChunks = sqliteTable(
+	"document_chunks",
+	{
+		id: text()
+			.primaryKey()
+			.$default(() => crypto.randomUUID()),
+		document_id: text().notNull(),
+		conversation_id: text().notNull(),
+		chunk_index: integer().notNull(),
+		content: text().notNull(),
+		embedding: text({ mode: "json" }).$type<number[]>().notNull(),
+	},
+	(table) => [
+		index("document_chunk_document_id").on(table.document_id),
+		index("document_chunk_conversation_id").on(table.conversation_id),
+	],
+);
+
+export const memories = sqliteTable("memories", {
+	id: text()
+		.primaryKey()
+		.$default(() => crypto.randomUUID()),
+	content: text().notNull(),
+	// Where the fact was learned; null when the user added it.
+	conversation_id: text(),
+	created_at: text().$default(() => new Date().toISOString()),
+});
+
+// A single row, as each Durable Object belongs to one user.
+export const settings = sqliteTable("settings", {
+	id: integer().primaryKey().default(1),
+	// Used when a request doesn't name a model.
+	default_model: text(),
+	tts_voice: text(),
+	generation: text({ mode: "json" }).$type<GenerationParameters>(),
+	updated_at: text().$default(() => new Date().toISOString()),
+});
+
+export const personas = sqliteTable("personas", {
+	id: text()
+		.primaryKey()
+		.$default(() => crypto.randomUUID()),
+	name: text().notNull(),
+	system_prompt: text().notNull(),
+	model: text(),
+	generation: text({ mode: "json" }).$type<GenerationParameters>(),
+	created_at: text().$default(() => new Date().toISOString()),
+	updated_at: text().$default(() => new Date().toISOString()),
+});
@@ -0,0 +1,78 @@
+import type {
+	ChatCompletionContentPart,
+	ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+
+import type * as schema from "drizzle/schema";
+
+export const SUPPORTED_ATTACHMENT_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/webp",
+	"image/gif",
+];
+
+// Durable Object SQLite caps a value at 2 MB and attachments are stored as
+// base64, which is a third larger than the file.
+export const MAX_ATTACHMENT_BYTES = 1_500_000;
+
+// Uploads no message refers to are deleted after this long, which leaves
+// time to send the message they were uploaded for.
+export const UNUSED_ATTACHMENT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Vision models bill an image as a fixed block of tokens regardless of the
+// size of its data URL.
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+export type Attachment = typeof schema.attachments.$inferSelect;
+
+export function getTextContent(parts: schema.MessageContentPart[]) {
+	return parts
+		.flatMap((part) => (part.type === "text" ? [part.text] : []))
+		.join("\n");
+}
+
+export function getAttachmentIds(parts: schema.MessageContentPart[] | null) {
+	return (parts ?? []).flatMap((part) =>
+		part.type === "image" ? [part.attachment_id] : [],
+	);
+}
+
+/** OpenAI content parts for a user message, with images as data URLs. */
+export function toChatCompletionContent(
+	parts: schema.MessageContentPart[],
+	attachments: Map<string, Attachment>,
+): ChatCompletionContentPart[] {
+	return parts.flatMap((part): ChatCompletionContentPart[] => {
+		if (part.type === "text") {
+			return [{ type: "text", text: part.text }];
+		}
+		const attachment = attachments.get(part.attachment_id);
+		return attachment
+			? [
+					{
+						type: "image_url",
+						image_url: {
+							url: `data:${attachment.mime_type};base64,${attachment.data}`,
+						},
+					},
+				]
+			: [];
+	});
+}
+
+/** Text of a message with every image replaced by a placeholder. */
+export function describeContent(
+	content: ChatCompletionMessageParam["content"],
+) {
+	if (typeof content === "string") {
+		return content;
+	}
+	return (content ?? [])
+		.map((part) =>
+			part.type === "text"
+				? part.text
+				: `[${part.type === "image_url" ? "image" : part.type}]`,
+		)
+		.join("\n");
+}
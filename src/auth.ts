@@ -0,0 +1,248 @@
+import { env } from "cloudflare:workers";
+import { z } from "zod";
+
+import { base64ToBytes, bytesToBase64 } from "~/base64";
+
+/**
+ * Access tokens resolve to a stable user id, which names the user's
+ * WorkersAIDurableObject. Anonymous tokens predate accounts and map to
+ * themselves, so their existing objects stay reachable; clients only ever see
+ * an id derived from such a token, never the token itself.
+ */
+
+export type Session = {
+	userId: string;
+	// What responses report as the user id.
+	publicUserId: string;
+	anonymous: boolean;
+};
+
+// Workers caps PBKDF2 at 100k iterations.
+const PBKDF2_ITERATIONS = 100000;
+
+const PAIRING_CODE_TTL_SECONDS = 10 * 60;
+// No 0/O or 1/I, so codes survive being read aloud or typed on a phone.
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 8;
+
+const AccessTokenSchema = z.object({
+	userId: z.string(),
+	publicUserId: z.string().optional(),
+});
+
+const PairingCodeSchema = z.object({
+	userId: z.string(),
+	publicUserId: z.string(),
+});
+
+const AccountSchema = z.object({
+	userId: z.string(),
+	email: z.string(),
+	passwordHash: z.string(),
+	salt: z.string(),
+	iterations: z.number(),
+	createdAt: z.string(),
+	// The anonymous user whose data still has to be merged into the account.
+	pendingMergeFrom: z.string().optional(),
+});
+
+export type Account = z.infer<typeof AccountSchema>;
+
+function getAccessTokenKey(accessToken: string) {
+	return `access_token:${accessToken}`;
+}
+
+function getAnonymousAccessTokenKey(accessToken: string) {
+	return `anonymous_access_token:${accessToken}`;
+}
+
+function getAccountKey(email: string) {
+	return `account:${normalizeEmail(email)}`;
+}
+
+function getPairingCodeKey(code: string) {
+	return `pairing_code:${code.toUpperCase()}`;
+}
+
+export function normalizeEmail(email: string) {
+	return email.trim().toLowerCase();
+}
+
+export async function resolveAccessToken(
+	accessToken: string,
+): Promise<Session | null> {
+	const session = await env.KV.get(getAccessTokenKey(accessToken), "json");
+	const parsedSession = AccessTokenSchema.safeParse(session);
+	if (parsedSession.success) {
+		const { userId, publicUserId = userId } = parsedSession.data;
+		return { userId, publicUserId, anonymous: false };
+	}
+	const anonymousUserId = await env.KV.get(
+		getAnonymousAccessTokenKey(accessToken),
+	);
+	if (anonymousUserId) {
+		return {
+			userId: anonymousUserId,
+			publicUserId:
+				anonymousUserId === accessToken
+					? await getLegacyPublicUserId(accessToken)
+					: anonymousUserId,
+			anonymous: true,
+		};
+	}
+	return null;
+}
+
+async function getLegacyPublicUserId(accessToken: string) {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(`legacy_user:${accessToken}`),
+	);
+	return Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+export async function createAnonymousAccessToken() {
+	const accessToken = crypto.randomUUID();
+	const userId = crypto.randomUUID();
+	await env.KV.put(getAnonymousAccessTokenKey(accessToken), userId);
+	return { accessToken, userId };
+}
+
+export async function createAccessToken(userId: string, publicUserId = userId) {
+	const accessToken = crypto.randomUUID();
+	await env.KV.put(
+		getAccessTokenKey(accessToken),
+		JSON.stringify(
+			AccessTokenSchema.parse({
+				userId,
+				publicUserId: publicUserId === userId ? undefined : publicUserId,
+			}),
+		),
+	);
+	return accessToken;
+}
+
+export async function revokeAccessToken(accessToken: string) {
+	await env.KV.delete(getAccessTokenKey(accessToken));
+	await env.KV.delete(getAnonymousAccessTokenKey(accessToken));
+}
+
+/**
+ * Returns null when an account with this email already exists. An account
+ * created from an anonymous session records it in `pendingMergeFrom` until
+ * its data has been merged in.
+ */
+export async function createAccount(
+	email: string,
+	password: string,
+	pendingMergeFrom?: string,
+) {
+	const key = getAccountKey(email);
+	if (await env.KV.get(key)) {
+		return null;
+	}
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const account: Account = {
+		userId: crypto.randomUUID(),
+		email: normalizeEmail(email),
+		passwordHash: bytesToBase64(
+			await hashPassword(password, salt, PBKDF2_ITERATIONS),
+		),
+		salt: bytesToBase64(salt),
+		iterations: PBKDF2_ITERATIONS,
+		createdAt: new Date().toISOString(),
+		pendingMergeFrom,
+	};
+	await env.KV.put(key, JSON.stringify(account));
+	return account;
+}
+
+export async function completePendingMerge(account: Account) {
+	const { pendingMergeFrom, ...rest } = account;
+	await env.KV.put(getAccountKey(account.email), JSON.stringify(rest));
+}
+
+/** Returns the account only when the password matches. */
+export async function verifyAccount(email: string, password: string) {
+	const parsedAccount = AccountSchema.safeParse(
+		await env.KV.get(getAccountKey(email), "json"),
+	);
+	if (!parsedAccount.success) {
+		return null;
+	}
+	const account = parsedAccount.data;
+	const expectedHash = base64ToBytes(account.passwordHash);
+	const actualHash = await hashPassword(
+		password,
+		base64ToBytes(account.salt),
+		account.iterations,
+	);
+	if (
+		expectedHash.byteLength !== actualHash.byteLength ||
+		!crypto.subtle.timingSafeEqual(expectedHash, actualHash)
+	) {
+		return null;
+	}
+	return account;
+}
+
+export async function createPairingCode(session: Session) {
+	const randomBytes = crypto.getRandomValues(
+		new Uint8Array(PAIRING_CODE_LENGTH),
+	);
+	const code = Array.from(
+		randomBytes,
+		(byte) => PAIRING_CODE_ALPHABET[byte % PAIRING_CODE_ALPHABET.length],
+	).join("");
+	await env.KV.put(
+		getPairingCodeKey(code),
+		JSON.stringify(
+			PairingCodeSchema.parse({
+				userId: session.userId,
+				publicUserId: session.publicUserId,
+			}),
+		),
+		{ expirationTtl: PAIRING_CODE_TTL_SECONDS },
+	);
+	return {
+		code,
+		expiresAt: new Date(
+			Date.now() + PAIRING_CODE_TTL_SECONDS * 1000,
+		).toISOString(),
+	};
+}
+
+/** Pairing codes are single use; returns the user the code was made for. */
+export async function redeemPairingCode(code: string) {
+	const key = getPairingCodeKey(code.trim());
+	const pairingCode = PairingCodeSchema.safeParse(
+		await env.KV.get(key, "json"),
+	);
+	if (!pairingCode.success) {
+		return null;
+	}
+	await env.KV.delete(key);
+	return pairingCode.data;
+}
+
+async function hashPassword(
+	password: string,
+	salt: Uint8Array,
+	iterations: number,
+) {
+	const keyMaterial = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(password),
+		"PBKDF2",
+		false,
+		["deriveBits"],
+	);
+	const bits = await crypto.subtle.deriveBits(
+		{ name: "PBKDF2", hash: "SHA-256", salt, iterations },
+		keyMaterial,
+		256,
+	);
+	return new Uint8Array(bits);
+}
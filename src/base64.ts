@@ -0,0 +1,19 @@
+export function bytesToBase64(bytes: Uint8Array) {
+	let binString = "";
+	// Chunked so the spread stays under the engine's argument limit.
+	for (let start = 0; start < bytes.length; start += 0x8000) {
+		binString += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+	}
+	return btoa(binString);
+}
+
+export function base64ToBytes(base64: string) {
+	const binString = atob(base64);
+	return Uint8Array.from(binString, (m) => m.codePointAt(0) ?? 0);
+}
+
+/** Size in bytes of the data a base64 string encodes. */
+export function getBase64Size(base64: string) {
+	const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+	return Math.floor((base64.length * 3) / 4) - padding;
+}
@@ -0,0 +1,44 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+import type * as schema from "drizzle/schema";
+import { type Attachment, toChatCompletionContent } from "~/attachments";
+
+/**
+ * Images are only sent when their `attachments` are given; otherwise a
+ * message with images is reduced to its text.
+ */
+export function toChatCompletionMessage(
+	message: Pick<
+		typeof schema.messages.$inferSelect,
+		"role" | "content" | "tool_calls" | "tool_call_id"
+	> &
+		Partial<Pick<typeof schema.messages.$inferSelect, "content_parts">>,
+	attachments?: Map<string, Attachment>,
+): ChatCompletionMessageParam {
+	switch (message.role) {
+		case "assistant":
+			return message.tool_calls?.length
+				? {
+						role: "assistant",
+						content: message.content,
+						tool_calls: message.tool_calls,
+					}
+				: { role: "assistant", content: message.content };
+		case "tool":
+			return {
+				role: "tool",
+				content: message.content,
+				tool_call_id: message.tool_call_id ?? "",
+			};
+		case "user":
+			return message.content_parts && attachments
+				? {
+						role: "user",
+						content: toChatCompletionContent(
+							message.content_parts,
+							attachments,
+						),
+					}
+				: { role: "user", content: message.content };
+	}
+}
@@ -9,24 +9,116 @@ import {
 import { create } from "@bufbuild/protobuf";
 import { z } from "zod";
 import { zodResponseFormat } from "openai/helpers/zod";
+import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import type * as schema from "drizzle/schema";
 
+import {
+	MAX_ATTACHMENT_BYTES,
+	SUPPORTED_ATTACHMENT_TYPES,
+} from "~/attachments";
+import { base64ToBytes } from "~/base64";
 import { createWorkerHandler } from "~/connectrpc-handler";
+import { MAX_DOCUMENT_BYTES, SUPPORTED_DOCUMENT_TYPES } from "~/documents";
 import {
+	AddMemoryResponseSchema,
 	AnonymousRegisterResponseSchema,
+	ChatEventSchema,
 	ChatService,
+	type ContentPart,
 	CreateConversationResponseSchema,
+	CreatePairingCodeResponseSchema,
+	CreatePersonaResponseSchema,
 	DeleteConversationResponseSchema,
+	DeleteDocumentResponseSchema,
+	DeleteMemoryResponseSchema,
+	DeletePersonaResponseSchema,
+	ExportAllConversationsResponseSchema,
+	ExportConversationResponseSchema,
+	ExportFormat,
+	type GenerationParameters,
+	GetAttachmentResponseSchema,
+	GetSettingsResponseSchema,
+	GetUsageResponseSchema,
+	ImportConversationResponseSchema,
 	ListConversationsResponseSchema,
+	ListDocumentsResponseSchema,
 	ListMessagesResponseSchema,
+	ListMessageVersionsResponseSchema,
+	ListGenerationsResponseSchema,
+	ListMemoriesResponseSchema,
+	ListPersonasResponseSchema,
+	ListSharesResponseSchema,
+	LoginResponseSchema,
 	ListModelsResponseSchema,
+	MessageStatus,
+	ModelTask,
 	PinConversationResponseSchema,
+	PricingTier,
+	RedeemPairingCodeResponseSchema,
+	RegisterResponseSchema,
 	RenameConversationResponseSchema,
+	RevokeShareResponseSchema,
+	SearchMessagesResponseSchema,
+	ShareConversationResponseSchema,
 	SpeechToTextResponseSchema,
 	StreamTTSResponseSchema,
+	SwitchMessageVersionResponseSchema,
+	type ToolDefinition,
 	UnpinConversationResponseSchema,
+	UpdateConversationParametersResponseSchema,
+	UpdateConversationSystemPromptResponseSchema,
+	UpdatePersonaResponseSchema,
+	UpdateSettingsResponseSchema,
+	UploadAttachmentResponseSchema,
+	UploadDocumentResponseSchema,
 } from "~/gen/chat/v1/chat_pb";
+import {
+	type ExportedConversation,
+	type ExportFormat as ExportFormatName,
+	parseImport,
+	renderExport,
+} from "~/export";
+import { DEFAULT_TTS_VOICE, TTS_VOICES } from "~/generation-settings";
+import {
+	getModelCatalog,
+	type ModelInfo,
+	type ModelTask as ModelTaskName,
+	validateChatRequest,
+} from "~/model-catalog";
+import {
+	decodePageToken,
+	encodePageToken,
+	getListPageSize,
+	getPageSize,
+} from "~/page-token";
 import { userStore } from "~/store-context";
+import { estimateSpeechSeconds, type UsageKind } from "~/usage";
+import {
+	type WebSocketErrorCode,
+	type WebSocketGenerationMetadata,
+	type WebSocketSequencedEvent,
+	WebSocketSequencedEventSchema,
+} from "~/websocket-protocol";
+import {
+	type Account,
+	completePendingMerge,
+	createAccessToken,
+	createAccount,
+	createAnonymousAccessToken,
+	createPairingCode,
+	redeemPairingCode,
+	resolveAccessToken,
+	revokeAccessToken,
+	verifyAccount,
+} from "~/auth";
 import { getTTSChunkingPrompt } from "~/prompts/tts";
+import { formatZodError, GenerationParametersSchema } from "~/schemas";
+import {
+	TTS_CACHE_TTL_SECONDS,
+	TTS_MODEL,
+	getTTSCacheKey,
+	segmentText,
+} from "~/tts";
 
 const TTSInputSchema = z.object({
 	chunks: z.array(z.string()),
@@ -34,151 +126,821 @@ const TTSInputSchema = z.object({
 
 const TTS_SHORT_TEXT_WORD_THRESHOLD = 100;
 
-const PUBLIC_ROUTES = ["anonymousRegister"];
+const ConversationPageTokenSchema = z.object({
+	pinned: z.boolean(),
+	updatedAt: z.string(),
+	id: z.string(),
+});
+
+const MessagePageTokenSchema = z.object({
+	before: z.string(),
+});
 
-const anonymousInterceptor: Interceptor = (next) => async (req) => {
+const SearchPageTokenSchema = z.object({
+	offset: z.number().int().nonnegative(),
+});
+
+const PUBLIC_ROUTES = [
+	"anonymousRegister",
+	"register",
+	"login",
+	"redeemPairingCode",
+];
+
+const METERED_ROUTES: Record<string, UsageKind> = {
+	streamTTS: "tts",
+	speechToText: "stt",
+	// Embedding a document counts against the token limit like chat does.
+	uploadDocument: "chat",
+};
+
+const CredentialsSchema = z.object({
+	email: z.string().trim().email(),
+	password: z.string().min(8).max(256),
+});
+
+const authInterceptor: Interceptor = (next) => async (req) => {
 	if (PUBLIC_ROUTES.includes(req.method.name)) {
 		return next(req);
 	}
 	const accessToken = req.header.get("authorization");
-	if (accessToken) {
-		const token = await env.KV.get(`anonymous_access_token:${accessToken}`);
-		if (!token) {
-			throw new ConnectError("Unauthorized", Code.Unauthenticated);
-		}
+	const session = accessToken ? await resolveAccessToken(accessToken) : null;
+	if (!session) {
+		throw new ConnectError("Unauthorized", Code.Unauthenticated);
 	}
-	const userCtx = req.contextValues.get(userStore);
-	if (!userCtx) {
-		throw new ConnectError("No user context", Code.Internal);
+	const usageKind = METERED_ROUTES[req.method.name];
+	if (usageKind) {
+		const stub = env.WORKERS_AI_DURABLE_OBJECT.get(
+			env.WORKERS_AI_DURABLE_OBJECT.idFromName(session.userId),
+		);
+		const exceeded = await stub.beginRequest(usageKind);
+		if (exceeded) {
+			throw new ConnectError(
+				`${exceeded.message}, retry after ${exceeded.retryAfterSeconds}s`,
+				Code.ResourceExhausted,
+			);
+		}
 	}
-	req.contextValues.set(userStore, {
-		accessToken,
-	});
+	req.contextValues.set(userStore, session);
 	return next(req);
 };
 
-function getUserAccessToken(ctx: HandlerContext) {
+function getUserSession(ctx: HandlerContext) {
 	const userCtx = ctx.values.get(userStore);
 	if (!userCtx) {
 		throw new ConnectError("No user context", Code.Internal);
 	}
-	return userCtx.accessToken;
+	return userCtx;
+}
+
+function parseCredentials(req: { email: string; password: string }) {
+	const credentials = CredentialsSchema.safeParse(req);
+	if (!credentials.success) {
+		throw new ConnectError(
+			formatZodError(credentials.error),
+			Code.InvalidArgument,
+		);
+	}
+	return credentials.data;
+}
+
+/**
+ * Moves everything stored for `fromUserId` into the object of `toUserId`,
+ * then empties the source. Conversations get new ids; share links keep
+ * working and can be revoked from the new owner. Documents are copied one at
+ * a time with their embeddings, so nothing is embedded again. Settings only
+ * fill in what the target hasn't set.
+ */
+async function mergeUserData(fromUserId: string, toUserId: string) {
+	const from = env.WORKERS_AI_DURABLE_OBJECT.get(
+		env.WORKERS_AI_DURABLE_OBJECT.idFromName(fromUserId),
+	);
+	const to = env.WORKERS_AI_DURABLE_OBJECT.get(
+		env.WORKERS_AI_DURABLE_OBJECT.idFromName(toUserId),
+	);
+	// Personas come first, so conversations can keep pointing at theirs.
+	const personaIds = new Map<string, string>();
+	for (const persona of await from.listPersonas()) {
+		const created = await to.createPersona({
+			name: persona.name,
+			systemPrompt: persona.system_prompt,
+			model: persona.model,
+			generation: persona.generation ?? {},
+		});
+		personaIds.set(persona.id, created.id);
+	}
+	const conversations = await from.exportConversations(null);
+	const shares = await from.listShares(null);
+	const imported = await to.importConversations(
+		conversations.map((conversation) => ({
+			...conversation,
+			persona_id:
+				conversation.persona_id &&
+				(personaIds.get(conversation.persona_id) ?? null),
+		})),
+	);
+	const conversationIds = new Map(
+		conversations.map((conversation, index) => [
+			conversation.id,
+			imported[index].id,
+		]),
+	);
+	await to.importShares(
+		shares.flatMap((share) => {
+			const conversationId = conversationIds.get(share.conversation_id);
+			return conversationId
+				? [{ ...share, conversation_id: conversationId }]
+				: [];
+		}),
+	);
+	for (const [fromConversationId, conversationId] of conversationIds) {
+		for (const document of await from.listDocuments(fromConversationId)) {
+			await to.importDocument({
+				conversationId,
+				document,
+				chunks: await from.listDocumentChunks(document.id),
+			});
+		}
+	}
+	for (const memory of await from.listMemories()) {
+		await to.addMemory(
+			memory.content,
+			memory.conversation_id &&
+				(conversationIds.get(memory.conversation_id) ?? memory.conversation_id),
+		);
+	}
+	const fromSettings = await from.getSettings();
+	const toSettings = await to.getSettings();
+	await to.updateSettings({
+		defaultModel: toSettings.defaultModel ?? fromSettings.defaultModel,
+		ttsVoice: toSettings.ttsVoice ?? fromSettings.ttsVoice,
+		generation: { ...fromSettings.generation, ...toSettings.generation },
+	});
+	await from.clearConversations();
+}
+
+/**
+ * Runs the merge an account was created with. The marker is only cleared once
+ * the merge succeeds, so a failed one is retried on the next login.
+ */
+async function finishPendingMerge(account: Account) {
+	if (!account.pendingMergeFrom) {
+		return;
+	}
+	await mergeUserData(account.pendingMergeFrom, account.userId);
+	await completePendingMerge(account);
 }
 
 export const handler = createWorkerHandler({
 	contextValues(req, env, ctx) {
-		return createContextValues().set(userStore, {
-			accessToken: "",
-		});
+		return createContextValues();
 	},
-	interceptors: [anonymousInterceptor],
+	interceptors: [authInterceptor],
 	routes(router) {
 		router.service(ChatService, {
 			listModels: async (req, ctx) => {
-				const models = await env.AI.models({
-					task: "Text Generation",
-				});
+				const task = toModelTaskName(req.task);
+				const models = await getModelCatalog(env);
 				const response = create(ListModelsResponseSchema, {
-					models: models.map((model) => ({
-						id: model.id,
-						name: model.name,
-						description: model.description,
-					})),
+					models: models.filter((model) => model.task === task).map(toModel),
 				});
 				return response;
 			},
 			listConversations: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
-				const conversations = await stub.listConversations();
+				const pageToken = decodePageToken(
+					req.pageToken,
+					ConversationPageTokenSchema,
+				);
+				if (req.pageToken && !pageToken) {
+					throw new ConnectError("Invalid page token", Code.InvalidArgument);
+				}
+				const pageSize = getListPageSize(req.pageSize);
+				const conversations = await stub.listConversations({
+					limit: pageSize === null ? null : pageSize + 1,
+					after: pageToken,
+				});
+				const page = conversations.slice(0, pageSize ?? undefined);
+				const last = page[page.length - 1];
 				const response = create(ListConversationsResponseSchema, {
-					conversations: conversations.map((conversation) => ({
-						id: conversation.id,
-						title: conversation.title ?? undefined,
-						pinned: conversation.pinned ?? false,
-						createdAt: conversation.created_at ?? undefined,
-						updatedAt: conversation.updated_at ?? undefined,
-					})),
+					conversations: page.map(toConversation),
+					nextPageToken:
+						pageSize !== null && conversations.length > pageSize
+							? encodePageToken({
+									pinned: last.pinned ?? false,
+									updatedAt: last.updated_at ?? "",
+									id: last.id,
+								})
+							: "",
 				});
 				return response;
 			},
 			createConversation: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
-				const conversation = await stub.createConversation();
+				const conversation = await stub.createConversation({
+					personaId: req.personaId || null,
+					systemPrompt: req.systemPrompt.trim() || null,
+				});
+				if (!conversation) {
+					throw new ConnectError("Persona not found", Code.NotFound);
+				}
 				const response = create(CreateConversationResponseSchema, {
-					conversation: {
-						id: conversation.id,
-						title: conversation.title ?? undefined,
-						pinned: conversation.pinned ?? false,
-						createdAt: conversation.created_at ?? undefined,
-						updatedAt: conversation.updated_at ?? undefined,
-					},
+					conversation: toConversation(conversation),
 				});
 				return response;
 			},
 			deleteConversation: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 				await stub.deleteConversation(req.conversationId);
 				return create(DeleteConversationResponseSchema, {});
 			},
 			renameConversation: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 				await stub.renameConversation(req.conversationId, req.title);
 				return create(RenameConversationResponseSchema, {});
 			},
 			pinConversation: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 				await stub.pinConversation(req.conversationId);
 				return create(PinConversationResponseSchema, {});
 			},
 			unpinConversation: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 				await stub.unpinConversation(req.conversationId);
 				return create(UnpinConversationResponseSchema, {});
 			},
+			updateConversationSystemPrompt: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const conversation = await stub.setConversationSystemPrompt(
+					req.conversationId,
+					req.systemPrompt.trim() || null,
+				);
+				if (!conversation) {
+					throw new ConnectError("Conversation not found", Code.NotFound);
+				}
+				return create(UpdateConversationSystemPromptResponseSchema, {
+					conversation: toConversation(conversation),
+				});
+			},
+			updateConversationParameters: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const conversation = await stub.setConversationParameters(
+					req.conversationId,
+					parseGenerationParameters(req.parameters),
+				);
+				if (!conversation) {
+					throw new ConnectError("Conversation not found", Code.NotFound);
+				}
+				return create(UpdateConversationParametersResponseSchema, {
+					conversation: toConversation(conversation),
+				});
+			},
 			listMessages: async (req, ctx) => {
-				const accessToken = getUserAccessToken(ctx);
+				const { userId } = getUserSession(ctx);
 				const id: DurableObjectId =
-					env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
 				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
-				const messages = await stub.listMessages({
+				const pageToken = decodePageToken(
+					req.pageToken,
+					MessagePageTokenSchema,
+				);
+				if (req.pageToken && !pageToken) {
+					throw new ConnectError("Invalid page token", Code.InvalidArgument);
+				}
+				const result = await stub.listMessages({
 					conversationId: req.conversationId,
+					includeAllBranches: req.includeAllBranches,
+					limit: getListPageSize(req.pageSize),
+					before: pageToken?.before ?? null,
 				});
+				if (!result) {
+					throw new ConnectError("Invalid page token", Code.InvalidArgument);
+				}
 				const response = create(ListMessagesResponseSchema, {
-					messages: messages.map((message) => ({
-						id: message.id,
-						conversationId: message.conversation_id,
-						role: message.role,
-						content: message.content,
-						createdAt: message.created_at ?? undefined,
-					})),
+					messages: result.messages.map(toMessage),
+					nextPageToken: result.hasMore
+						? encodePageToken({ before: result.messages[0].id })
+						: "",
 				});
 				return response;
 			},
+			listMessageVersions: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const result = await stub.listMessageVersions({
+					conversationId: req.conversationId,
+					messageId: req.messageId,
+				});
+				if (!result) {
+					throw new ConnectError("Message not found", Code.NotFound);
+				}
+				return create(ListMessageVersionsResponseSchema, {
+					versions: result.versions.map(toMessage),
+					activeIndex: result.activeIndex,
+				});
+			},
+			switchMessageVersion: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const messages = await stub.switchMessageVersion({
+					conversationId: req.conversationId,
+					messageId: req.messageId,
+				});
+				if (!messages) {
+					throw new ConnectError("Message not found", Code.NotFound);
+				}
+				return create(SwitchMessageVersionResponseSchema, {
+					messages: messages.map(toMessage),
+				});
+			},
+			searchMessages: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const pageToken = decodePageToken(req.pageToken, SearchPageTokenSchema);
+				if (req.pageToken && !pageToken) {
+					throw new ConnectError("Invalid page token", Code.InvalidArgument);
+				}
+				const pageSize = getPageSize(req.pageSize);
+				const offset = pageToken?.offset ?? 0;
+				const results = await stub.searchMessages({
+					query: req.query,
+					limit: pageSize + 1,
+					offset,
+				});
+				return create(SearchMessagesResponseSchema, {
+					results: results.slice(0, pageSize).map((result) => ({
+						messageId: result.message_id,
+						conversationId: result.conversation_id,
+						conversationTitle: result.conversation_title ?? undefined,
+						role: result.role,
+						snippet: result.snippet,
+						createdAt: result.created_at ?? undefined,
+					})),
+					nextPageToken:
+						results.length > pageSize
+							? encodePageToken({ offset: offset + pageSize })
+							: "",
+				});
+			},
+			exportConversation: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const conversations = await stub.exportConversations(
+					req.conversationId,
+				);
+				if (conversations.length === 0) {
+					throw new ConnectError("Conversation not found", Code.NotFound);
+				}
+				const { content, mimeType, extension } = renderExport(
+					conversations,
+					toExportFormat(req.format),
+					{ bulk: false },
+				);
+				return create(ExportConversationResponseSchema, {
+					content,
+					mimeType,
+					filename: `conversation-${req.conversationId}.${extension}`,
+				});
+			},
+			exportAllConversations: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const conversations = await stub.exportConversations(null);
+				const { content, mimeType, extension } = renderExport(
+					conversations,
+					toExportFormat(req.format),
+					{ bulk: true },
+				);
+				return create(ExportAllConversationsResponseSchema, {
+					content,
+					mimeType,
+					filename: `conversations.${extension}`,
+				});
+			},
+			importConversation: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				let conversations: ExportedConversation[];
+				try {
+					conversations = parseImport(req.content, toExportFormat(req.format));
+				} catch (error) {
+					const reason =
+						error instanceof z.ZodError
+							? formatZodError(error)
+							: error instanceof Error
+								? error.message
+								: "unreadable input";
+					throw new ConnectError(
+						`Invalid import: ${reason}`,
+						Code.InvalidArgument,
+					);
+				}
+				const imported = await stub.importConversations(conversations);
+				return create(ImportConversationResponseSchema, {
+					conversations: imported.map(toConversation),
+				});
+			},
+			shareConversation: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const share = await stub.shareConversation(req.conversationId);
+				if (!share) {
+					throw new ConnectError("Conversation not found", Code.NotFound);
+				}
+				return create(ShareConversationResponseSchema, {
+					share: toShare(share),
+				});
+			},
+			listShares: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const shares = await stub.listShares(req.conversationId || null);
+				return create(ListSharesResponseSchema, {
+					shares: shares.map(toShare),
+				});
+			},
+			revokeShare: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const revoked = await stub.revokeShare(req.shareId);
+				if (!revoked) {
+					throw new ConnectError("Share not found", Code.NotFound);
+				}
+				return create(RevokeShareResponseSchema, {});
+			},
+			uploadAttachment: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				if (!SUPPORTED_ATTACHMENT_TYPES.includes(req.mimeType)) {
+					throw new ConnectError(
+						`Unsupported attachment type, expected one of ${SUPPORTED_ATTACHMENT_TYPES.join(", ")}`,
+						Code.InvalidArgument,
+					);
+				}
+				if (req.data.byteLength === 0) {
+					throw new ConnectError("Attachment is empty", Code.InvalidArgument);
+				}
+				if (req.data.byteLength > MAX_ATTACHMENT_BYTES) {
+					throw new ConnectError(
+						`Attachment is larger than ${MAX_ATTACHMENT_BYTES} bytes`,
+						Code.InvalidArgument,
+					);
+				}
+				const attachment = await stub.uploadAttachment({
+					mimeType: req.mimeType,
+					data: req.data,
+				});
+				return create(UploadAttachmentResponseSchema, {
+					attachment: toAttachment(attachment),
+				});
+			},
+			getAttachment: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const attachment = await stub.getAttachment(req.attachmentId);
+				if (!attachment) {
+					throw new ConnectError("Attachment not found", Code.NotFound);
+				}
+				return create(GetAttachmentResponseSchema, {
+					attachment: toAttachment(attachment),
+					data: base64ToBytes(attachment.data),
+				});
+			},
+			listMemories: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const memories = await stub.listMemories();
+				return create(ListMemoriesResponseSchema, {
+					memories: memories.map(toMemory),
+				});
+			},
+			getSettings: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const settings = await stub.getSettings();
+				return create(GetSettingsResponseSchema, {
+					settings: toSettings(settings),
+				});
+			},
+			updateSettings: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const defaultModel = req.settings?.defaultModel || null;
+				if (defaultModel) {
+					const invalid = await validateChatRequest(env, {
+						model: defaultModel,
+						hasTools: false,
+						hasImages: false,
+					});
+					if (invalid) {
+						throw new ConnectError(invalid, Code.InvalidArgument);
+					}
+				}
+				const ttsVoice = req.settings?.ttsVoice || null;
+				if (ttsVoice && !TTS_VOICES.includes(ttsVoice)) {
+					throw new ConnectError(
+						`Unknown TTS voice: ${ttsVoice}`,
+						Code.InvalidArgument,
+					);
+				}
+				const settings = await stub.updateSettings({
+					defaultModel,
+					ttsVoice,
+					generation: parseGenerationParameters(req.settings?.parameters),
+				});
+				return create(UpdateSettingsResponseSchema, {
+					settings: toSettings(settings),
+				});
+			},
+			listPersonas: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const personas = await stub.listPersonas();
+				return create(ListPersonasResponseSchema, {
+					personas: personas.map(toPersona),
+				});
+			},
+			createPersona: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const persona = await stub.createPersona(await parsePersona(req));
+				return create(CreatePersonaResponseSchema, {
+					persona: toPersona(persona),
+				});
+			},
+			updatePersona: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const persona = await stub.updatePersona(
+					req.personaId,
+					await parsePersona(req),
+				);
+				if (!persona) {
+					throw new ConnectError("Persona not found", Code.NotFound);
+				}
+				return create(UpdatePersonaResponseSchema, {
+					persona: toPersona(persona),
+				});
+			},
+			deletePersona: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const deleted = await stub.deletePersona(req.personaId);
+				if (!deleted) {
+					throw new ConnectError("Persona not found", Code.NotFound);
+				}
+				return create(DeletePersonaResponseSchema, {});
+			},
+			addMemory: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const content = req.content.trim();
+				if (!content) {
+					throw new ConnectError("Memory is empty", Code.InvalidArgument);
+				}
+				const memory = await stub.addMemory(content);
+				if (!memory) {
+					throw new ConnectError(
+						"Too many memories, delete some first",
+						Code.ResourceExhausted,
+					);
+				}
+				return create(AddMemoryResponseSchema, {
+					memory: toMemory(memory),
+				});
+			},
+			deleteMemory: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const deleted = await stub.deleteMemory(req.memoryId);
+				if (!deleted) {
+					throw new ConnectError("Memory not found", Code.NotFound);
+				}
+				return create(DeleteMemoryResponseSchema, {});
+			},
+			uploadDocument: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				if (!SUPPORTED_DOCUMENT_TYPES.includes(req.mimeType)) {
+					throw new ConnectError(
+						`Unsupported document type, expected one of ${SUPPORTED_DOCUMENT_TYPES.join(", ")}`,
+						Code.InvalidArgument,
+					);
+				}
+				if (req.data.byteLength > MAX_DOCUMENT_BYTES) {
+					throw new ConnectError(
+						`Document is larger than ${MAX_DOCUMENT_BYTES} bytes`,
+						Code.InvalidArgument,
+					);
+				}
+				const name = req.name || "document";
+				const text = await extractDocumentText(name, req.mimeType, req.data);
+				if (!text.trim()) {
+					throw new ConnectError(
+						"No text found in document",
+						Code.InvalidArgument,
+					);
+				}
+				const added = await stub.addDocument({
+					conversationId: req.conversationId,
+					name,
+					mimeType: req.mimeType,
+					size: req.data.byteLength,
+					text,
+				});
+				if (!added) {
+					throw new ConnectError("Conversation not found", Code.NotFound);
+				}
+				if (!added.success) {
+					throw new ConnectError(added.error, Code.ResourceExhausted);
+				}
+				return create(UploadDocumentResponseSchema, {
+					document: toDocument(added.document),
+				});
+			},
+			listDocuments: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const documents = await stub.listDocuments(req.conversationId);
+				return create(ListDocumentsResponseSchema, {
+					documents: documents.map(toDocument),
+				});
+			},
+			deleteDocument: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const deleted = await stub.deleteDocument(req.documentId);
+				if (!deleted) {
+					throw new ConnectError("Document not found", Code.NotFound);
+				}
+				return create(DeleteDocumentResponseSchema, {});
+			},
+			streamChat: async function* (req, ctx) {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const eventId = req.eventId || crypto.randomUUID();
+				const tools = req.tools.map(toChatCompletionTool);
+				const parameters = parseGenerationParameters(req.parameters);
+				const content =
+					req.parts.length > 0
+						? req.parts.map(toRequestContentPart)
+						: req.content;
+				const stream = await stub.streamChat(
+					req.editMessageId
+						? {
+								type: "chat.message.edit",
+								eventId,
+								conversationId: req.conversationId,
+								messageId: req.editMessageId,
+								content,
+								model: req.model || undefined,
+								tools,
+								parameters,
+							}
+						: {
+								type: "chat.stream.create",
+								eventId,
+								conversationId: req.conversationId,
+								content,
+								model: req.model || undefined,
+								tools,
+								parameters,
+							},
+				);
+				yield* readChatEvents(stream, () =>
+					stub.cancelStream({ eventId, conversationId: req.conversationId }),
+				);
+			},
+			regenerate: async function* (req, ctx) {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const eventId = req.eventId || crypto.randomUUID();
+				const stream = await stub.streamChat({
+					type: "chat.regenerate",
+					eventId,
+					conversationId: req.conversationId,
+					model: req.model || undefined,
+					tools: req.tools.map(toChatCompletionTool),
+					parameters: parseGenerationParameters(req.parameters),
+				});
+				yield* readChatEvents(stream, () =>
+					stub.cancelStream({ eventId, conversationId: req.conversationId }),
+				);
+			},
+			continue: async function* (req, ctx) {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const eventId = req.eventId || crypto.randomUUID();
+				const stream = await stub.streamChat({
+					type: "chat.continue",
+					eventId,
+					conversationId: req.conversationId,
+					messageId: req.messageId,
+					model: req.model || undefined,
+					parameters: parseGenerationParameters(req.parameters),
+				});
+				yield* readChatEvents(stream, () =>
+					stub.cancelStream({ eventId, conversationId: req.conversationId }),
+				);
+			},
 			streamTTS: async function* (req, ctx) {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				if (req.voice && !TTS_VOICES.includes(req.voice)) {
+					throw new ConnectError(
+						`Unknown TTS voice: ${req.voice}`,
+						Code.InvalidArgument,
+					);
+				}
+				const voice =
+					req.voice || (await stub.getSettings()).ttsVoice || DEFAULT_TTS_VOICE;
 				try {
 					const words = req.text.split(/\s+/).filter(Boolean);
 					let chunks: string[];
 
-					if (words.length < TTS_SHORT_TEXT_WORD_THRESHOLD) {
-						chunks = [req.text];
+					if (
+						!req.llmChunking ||
+						words.length < TTS_SHORT_TEXT_WORD_THRESHOLD
+					) {
+						chunks = segmentText(req.text, voice);
 					} else {
 						const response = await env.AI.run(
 							"@cf/meta/llama-4-scout-17b-16e-instruct" as unknown as any,
@@ -208,15 +970,26 @@ export const handler = createWorkerHandler({
 						if (!chunk || chunk.trim().length === 0) {
 							continue;
 						}
+						// Re-listening to a message is served from KV without
+						// synthesizing or counting the audio again.
+						const cacheKey = await getTTSCacheKey(voice, chunk);
+						const cached = await env.KV.get(cacheKey, "arrayBuffer");
+						if (cached) {
+							yield create(StreamTTSResponseSchema, {
+								audio: new Uint8Array(cached),
+							});
+							continue;
+						}
 						const ttsResponse = await env.AI.run(
-							"@cf/myshell-ai/melotts",
+							TTS_MODEL,
 							{
 								prompt: chunk,
+								lang: voice,
 							},
 							{
 								gateway: {
 									id: env.CLOUDFLARE_AI_GATEWAY_ID,
-									cacheTtl: 60 * 60 * 24 * 30,
+									cacheTtl: TTS_CACHE_TTL_SECONDS,
 								},
 							},
 						);
@@ -224,6 +997,12 @@ export const handler = createWorkerHandler({
 							audio: string;
 						};
 						const data = base64ToBytes(audioData.audio);
+						await env.KV.put(cacheKey, data, {
+							expirationTtl: TTS_CACHE_TTL_SECONDS,
+						});
+						await stub.recordUsage({
+							audioSeconds: estimateSpeechSeconds(chunk),
+						});
 						yield create(StreamTTSResponseSchema, {
 							audio: data,
 						});
@@ -233,32 +1012,538 @@ export const handler = createWorkerHandler({
 				}
 			},
 			speechToText: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 				const result = await env.AI.run("@cf/openai/whisper", {
 					audio: bytesToNumberArray(req.audio),
 				});
+				const lastWord = result.words?.[result.words.length - 1];
+				await stub.recordUsage({
+					audioSeconds: lastWord?.end ?? estimateSpeechSeconds(result.text),
+				});
 				return create(SpeechToTextResponseSchema, {
 					text: result.text,
 				});
 			},
+			getUsage: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const usage = await stub.getUsage();
+				return create(GetUsageResponseSchema, {
+					day: usage.day,
+					requests: usage.requests,
+					promptTokens: usage.promptTokens,
+					completionTokens: usage.completionTokens,
+					audioSeconds: usage.audioSeconds,
+					limits: usage.limits,
+				});
+			},
+			listGenerations: async (req, ctx) => {
+				const { userId } = getUserSession(ctx);
+				const id: DurableObjectId =
+					env.WORKERS_AI_DURABLE_OBJECT.idFromName(userId);
+				const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+				const generations = await stub.listGenerations();
+				return create(ListGenerationsResponseSchema, { generations });
+			},
 			anonymousRegister: async (req, ctx) => {
-				const accessToken = crypto.randomUUID();
-				const key = `anonymous_access_token:${accessToken}`;
-				const existingToken = await env.KV.get(key);
-				if (existingToken) {
-					throw new ConnectError("Unauthorized", Code.Unauthenticated);
-				}
-				await env.KV.put(key, accessToken);
+				const { accessToken } = await createAnonymousAccessToken();
 				return create(AnonymousRegisterResponseSchema, {
 					accessToken,
 				});
 			},
+			register: async (req, ctx) => {
+				const { email, password } = parseCredentials(req);
+				// Signing up from an anonymous session carries its data over.
+				const anonymousAccessToken = ctx.requestHeader.get("authorization");
+				const session = anonymousAccessToken
+					? await resolveAccessToken(anonymousAccessToken)
+					: null;
+				const anonymousSession = session?.anonymous ? session : null;
+				const account = await createAccount(
+					email,
+					password,
+					anonymousSession?.userId,
+				);
+				if (!account) {
+					throw new ConnectError("Account already exists", Code.AlreadyExists);
+				}
+				await finishPendingMerge(account);
+				if (anonymousAccessToken && anonymousSession) {
+					await revokeAccessToken(anonymousAccessToken);
+				}
+				return create(RegisterResponseSchema, {
+					accessToken: await createAccessToken(account.userId),
+					userId: account.userId,
+				});
+			},
+			login: async (req, ctx) => {
+				const { email, password } = parseCredentials(req);
+				const account = await verifyAccount(email, password);
+				if (!account) {
+					throw new ConnectError(
+						"Invalid email or password",
+						Code.Unauthenticated,
+					);
+				}
+				await finishPendingMerge(account);
+				return create(LoginResponseSchema, {
+					accessToken: await createAccessToken(account.userId),
+					userId: account.userId,
+				});
+			},
+			createPairingCode: async (req, ctx) => {
+				const { code, expiresAt } = await createPairingCode(
+					getUserSession(ctx),
+				);
+				return create(CreatePairingCodeResponseSchema, {
+					code,
+					expiresAt,
+				});
+			},
+			redeemPairingCode: async (req, ctx) => {
+				const pairedUser = await redeemPairingCode(req.code);
+				if (!pairedUser) {
+					throw new ConnectError(
+						"Invalid or expired pairing code",
+						Code.NotFound,
+					);
+				}
+				return create(RedeemPairingCodeResponseSchema, {
+					accessToken: await createAccessToken(
+						pairedUser.userId,
+						pairedUser.publicUserId,
+					),
+					userId: pairedUser.publicUserId,
+				});
+			},
 		});
 	},
 });
 
-function base64ToBytes(base64: string) {
-	const binString = atob(base64);
-	return Uint8Array.from(binString, (m) => m.codePointAt(0) ?? 0);
+function toConversation(
+	conversation: typeof schema.conversations.$inferSelect,
+) {
+	return {
+		id: conversation.id,
+		title: conversation.title ?? undefined,
+		pinned: conversation.pinned ?? false,
+		createdAt: conversation.created_at ?? undefined,
+		updatedAt: conversation.updated_at ?? undefined,
+		parameters: conversation.generation ?? {},
+		systemPrompt: conversation.system_prompt ?? "",
+		personaId: conversation.persona_id ?? "",
+		model: conversation.model ?? "",
+	};
+}
+
+function toPersona(persona: typeof schema.personas.$inferSelect) {
+	return {
+		id: persona.id,
+		name: persona.name,
+		systemPrompt: persona.system_prompt,
+		model: persona.model ?? "",
+		parameters: persona.generation ?? {},
+		createdAt: persona.created_at ?? undefined,
+		updatedAt: persona.updated_at ?? undefined,
+	};
+}
+
+async function parsePersona(req: {
+	name: string;
+	systemPrompt: string;
+	model: string;
+	parameters?: GenerationParameters;
+}) {
+	const name = req.name.trim();
+	const systemPrompt = req.systemPrompt.trim();
+	if (!name || !systemPrompt) {
+		throw new ConnectError(
+			"A persona needs a name and a system prompt",
+			Code.InvalidArgument,
+		);
+	}
+	if (req.model) {
+		const invalid = await validateChatRequest(env, {
+			model: req.model,
+			hasTools: false,
+			hasImages: false,
+		});
+		if (invalid) {
+			throw new ConnectError(invalid, Code.InvalidArgument);
+		}
+	}
+	return {
+		name,
+		systemPrompt,
+		model: req.model || null,
+		generation: parseGenerationParameters(req.parameters),
+	};
+}
+
+function toSettings(settings: {
+	defaultModel: string | null;
+	ttsVoice: string | null;
+	generation: schema.GenerationParameters;
+}) {
+	return {
+		defaultModel: settings.defaultModel ?? "",
+		ttsVoice: settings.ttsVoice ?? "",
+		parameters: settings.generation,
+	};
+}
+
+function parseGenerationParameters(
+	parameters: GenerationParameters | undefined,
+): schema.GenerationParameters {
+	const parsed = GenerationParametersSchema.safeParse({
+		temperature: parameters?.temperature,
+		topP: parameters?.topP,
+		maxCompletionTokens: parameters?.maxCompletionTokens,
+		reasoningEffort: parameters?.reasoningEffort,
+	});
+	if (!parsed.success) {
+		throw new ConnectError(formatZodError(parsed.error), Code.InvalidArgument);
+	}
+	return parsed.data;
+}
+
+function toMessage(
+	message: typeof schema.messages.$inferSelect & {
+		sibling_count: number;
+		sibling_index: number;
+	},
+) {
+	return {
+		id: message.id,
+		conversationId: message.conversation_id,
+		role: message.role,
+		content: message.content,
+		createdAt: message.created_at ?? undefined,
+		toolCalls: (message.tool_calls ?? []).map((toolCall) => ({
+			id: toolCall.id,
+			name: toolCall.function.name,
+			arguments: toolCall.function.arguments,
+		})),
+		toolCallId: message.tool_call_id ?? undefined,
+		parentId: message.parent_id ?? undefined,
+		siblingCount: message.sibling_count,
+		siblingIndex: message.sibling_index,
+		parts: (
+			message.content_parts ?? [{ type: "text", text: message.content }]
+		).map((part) =>
+			part.type === "text"
+				? { part: { case: "text" as const, value: part.text } }
+				: {
+						part: { case: "attachmentId" as const, value: part.attachment_id },
+					},
+		),
+		metadata: message.status
+			? toGenerationMetadata({
+					model: message.model ?? "",
+					promptTokens: message.prompt_tokens ?? 0,
+					completionTokens: message.completion_tokens ?? 0,
+					timeToFirstTokenMs: message.time_to_first_token_ms,
+					latencyMs: message.latency_ms ?? 0,
+					finishReason: message.finish_reason,
+					status: message.status,
+				})
+			: undefined,
+	};
+}
+
+function toGenerationMetadata(
+	metadata: Omit<WebSocketGenerationMetadata, "messageId">,
+) {
+	return {
+		model: metadata.model,
+		promptTokens: metadata.promptTokens,
+		completionTokens: metadata.completionTokens,
+		timeToFirstTokenMs: metadata.timeToFirstTokenMs ?? undefined,
+		latencyMs: metadata.latencyMs,
+		finishReason: metadata.finishReason ?? "",
+		status: {
+			complete: MessageStatus.COMPLETE,
+			cancelled: MessageStatus.CANCELLED,
+			error: MessageStatus.ERROR,
+			truncated: MessageStatus.TRUNCATED,
+		}[metadata.status],
+	};
+}
+
+function toMemory(memory: typeof schema.memories.$inferSelect) {
+	return {
+		id: memory.id,
+		content: memory.content,
+		conversationId: memory.conversation_id ?? undefined,
+		createdAt: memory.created_at ?? undefined,
+	};
+}
+
+function toDocument(document: typeof schema.documents.$inferSelect) {
+	return {
+		id: document.id,
+		conversationId: document.conversation_id,
+		name: document.name,
+		mimeType: document.mime_type,
+		size: document.size,
+		chunkCount: document.chunk_count,
+		createdAt: document.created_at ?? undefined,
+	};
+}
+
+async function extractDocumentText(
+	name: string,
+	mimeType: string,
+	data: Uint8Array,
+) {
+	if (mimeType === "application/pdf") {
+		const converted = await env.AI.toMarkdown({
+			name,
+			blob: new Blob([data], { type: mimeType }),
+		});
+		return converted.data;
+	}
+	return new TextDecoder().decode(data);
+}
+
+function toAttachment(
+	attachment: Pick<
+		typeof schema.attachments.$inferSelect,
+		"id" | "mime_type" | "size" | "created_at"
+	>,
+) {
+	return {
+		id: attachment.id,
+		mimeType: attachment.mime_type,
+		size: attachment.size,
+		createdAt: attachment.created_at ?? undefined,
+	};
+}
+
+function toRequestContentPart(part: ContentPart) {
+	switch (part.part.case) {
+		case "text":
+			return { type: "text" as const, text: part.part.value };
+		case "attachmentId":
+			return { type: "image" as const, attachmentId: part.part.value };
+		default:
+			throw new ConnectError("Empty content part", Code.InvalidArgument);
+	}
+}
+
+function toChatCompletionTool(tool: ToolDefinition): ChatCompletionTool {
+	let parameters: Record<string, unknown> | undefined;
+	if (tool.parametersJson) {
+		try {
+			parameters = JSON.parse(tool.parametersJson);
+		} catch {
+			throw new ConnectError(
+				`Invalid parameters JSON for tool ${tool.name}`,
+				Code.InvalidArgument,
+			);
+		}
+	}
+	return {
+		type: "function",
+		function: {
+			name: tool.name,
+			...(tool.description ? { description: tool.description } : {}),
+			...(parameters ? { parameters } : {}),
+		},
+	};
+}
+
+const STREAM_ERROR_CODES: Record<WebSocketErrorCode, Code> = {
+	invalid_message: Code.InvalidArgument,
+	unsupported_protocol_version: Code.InvalidArgument,
+	handshake_required: Code.FailedPrecondition,
+	invalid_argument: Code.InvalidArgument,
+	not_found: Code.NotFound,
+	already_exists: Code.AlreadyExists,
+	failed_precondition: Code.FailedPrecondition,
+	resource_exhausted: Code.ResourceExhausted,
+	internal: Code.Internal,
+};
+
+/**
+ * Turns the line-delimited events of a Durable Object chat stream into
+ * `ChatEvent`s. Error events end the call with the matching status.
+ */
+/**
+ * Relays the events of a generation to the RPC client. If the client goes
+ * away before the generation ends, `cancel` stops it, like a socket's
+ * `chat.stream.cancel` would.
+ */
+async function* readChatEvents(
+	stream: ReadableStream<Uint8Array>,
+	cancel: () => Promise<void>,
+) {
+	const decoder = new TextDecoder();
+	let buffered = "";
+	let ended = false;
+	try {
+		for await (const chunk of stream) {
+			buffered += decoder.decode(chunk, { stream: true });
+			const lines = buffered.split("\n");
+			buffered = lines.pop() ?? "";
+			for (const line of lines) {
+				if (!line) {
+					continue;
+				}
+				const parsedEvent = WebSocketSequencedEventSchema.safeParse(
+					JSON.parse(line),
+				);
+				if (!parsedEvent.success) {
+					throw new ConnectError(
+						`Invalid stream event: ${formatZodError(parsedEvent.error)}`,
+						Code.Internal,
+					);
+				}
+				const event = parsedEvent.data;
+				if (event.type === "error") {
+					ended = true;
+					throw new ConnectError(event.message, STREAM_ERROR_CODES[event.code]);
+				}
+				if (event.type === "usage.limit.exceeded") {
+					ended = true;
+					throw new ConnectError(
+						`${event.message}, retry after ${event.retryAfterSeconds}s`,
+						Code.ResourceExhausted,
+					);
+				}
+				ended = event.type === "chat.stream.done";
+				yield toChatEvent(event);
+			}
+		}
+		ended = true;
+	} finally {
+		// Also reached when the client aborts, which stops iterating here.
+		if (!ended) {
+			await cancel();
+		}
+	}
+}
+
+function toChatEvent(
+	event: Exclude<
+		WebSocketSequencedEvent,
+		{ type: "error" | "usage.limit.exceeded" }
+	>,
+) {
+	const envelope = {
+		eventId: event.eventId,
+		conversationId: event.conversationId,
+		sequence: event.sequence,
+	};
+	switch (event.type) {
+		case "chat.stream.response":
+			return create(ChatEventSchema, {
+				...envelope,
+				event: { case: "delta", value: { content: event.content } },
+			});
+		case "chat.tool.call":
+			return create(ChatEventSchema, {
+				...envelope,
+				event: {
+					case: "toolCall",
+					value: {
+						toolCallId: event.toolCallId,
+						name: event.name,
+						arguments: event.arguments,
+					},
+				},
+			});
+		case "chat.tool.result":
+			return create(ChatEventSchema, {
+				...envelope,
+				event: {
+					case: "toolResult",
+					value: {
+						toolCallId: event.toolCallId,
+						name: event.name,
+						result: event.result,
+					},
+				},
+			});
+		case "conversation.title.update":
+			return create(ChatEventSchema, {
+				...envelope,
+				event: { case: "title", value: { title: event.title } },
+			});
+		case "chat.stream.done":
+			return create(ChatEventSchema, {
+				...envelope,
+				event: {
+					case: "done",
+					value: {
+						functionCall: event.function_call ?? undefined,
+						citations: event.citations,
+						messageId: event.metadata.messageId,
+						metadata: toGenerationMetadata(event.metadata),
+					},
+				},
+			});
+	}
+}
+
+function toShare(share: typeof schema.shares.$inferSelect) {
+	return {
+		id: share.id,
+		conversationId: share.conversation_id,
+		createdAt: share.created_at ?? undefined,
+	};
+}
+
+function toModel(model: ModelInfo) {
+	return {
+		id: model.id,
+		name: model.name,
+		description: model.description,
+		task: {
+			"text-generation": ModelTask.TEXT_GENERATION,
+			"speech-recognition": ModelTask.SPEECH_RECOGNITION,
+			"text-to-speech": ModelTask.TEXT_TO_SPEECH,
+		}[model.task],
+		contextWindow: model.contextWindow ?? 0,
+		functionCalling: model.functionCalling,
+		vision: model.vision,
+		reasoning: model.reasoning,
+		pricingTier: model.pricingTier
+			? {
+					low: PricingTier.LOW,
+					medium: PricingTier.MEDIUM,
+					high: PricingTier.HIGH,
+				}[model.pricingTier]
+			: PricingTier.UNSPECIFIED,
+		beta: model.beta,
+	};
+}
+
+function toModelTaskName(task: ModelTask): ModelTaskName {
+	switch (task) {
+		case ModelTask.SPEECH_RECOGNITION:
+			return "speech-recognition";
+		case ModelTask.TEXT_TO_SPEECH:
+			return "text-to-speech";
+		default:
+			return "text-generation";
+	}
+}
+
+function toExportFormat(format: ExportFormat): ExportFormatName {
+	switch (format) {
+		case ExportFormat.MARKDOWN:
+			return "markdown";
+		case ExportFormat.OPENAI:
+			return "openai";
+		default:
+			return "json";
+	}
 }
 
 function bytesToNumberArray(bytes: Uint8Array) {
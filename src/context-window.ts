@@ -0,0 +1,122 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+import { describeContent, IMAGE_TOKEN_ESTIMATE } from "~/attachments";
+
+// For models the catalog has no context length for, or while it can't be
+// reached. Conservative, as overrunning the window fails the request.
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Share of the history budget the recent turns may fill right after a fold.
+// Leaving headroom lets the next few turns reuse the stored summary.
+const RECENT_HISTORY_SHARE = 0.5;
+
+/** Tokens available for the prompt once room for the reply is set aside. */
+export function getHistoryBudget(
+	contextWindow: number,
+	maxCompletionTokens: number,
+) {
+	return (
+		contextWindow - Math.min(maxCompletionTokens, Math.floor(contextWindow / 2))
+	);
+}
+
+// Workers AI has no tokenizer endpoint, so this uses the usual ~4 characters
+// per token estimate plus a little per-message overhead.
+export function estimateTokens(message: ChatCompletionMessageParam) {
+	let images = 0;
+	let characters = 0;
+	if (typeof message.content === "string") {
+		characters = message.content.length;
+	} else {
+		for (const part of message.content ?? []) {
+			if (part.type === "image_url") {
+				images++;
+			} else {
+				characters +=
+					part.type === "text" ? part.text.length : JSON.stringify(part).length;
+			}
+		}
+	}
+	if (message.role === "assistant") {
+		for (const toolCall of message.tool_calls ?? []) {
+			characters +=
+				toolCall.function.name.length + toolCall.function.arguments.length;
+		}
+	}
+	return Math.ceil(characters / 4) + 4 + images * IMAGE_TOKEN_ESTIMATE;
+}
+
+export function estimateHistoryTokens(messages: ChatCompletionMessageParam[]) {
+	return messages.reduce(
+		(total, message) => total + estimateTokens(message),
+		0,
+	);
+}
+
+/**
+ * Picks where the recent turns start when history has to be folded into a
+ * summary. The cut always lands on a user message so tool calls stay next to
+ * their results, and the latest user message is always kept.
+ */
+export function findRecentHistoryStart(
+	messages: ChatCompletionMessageParam[],
+	budget: number,
+) {
+	const limit = budget * RECENT_HISTORY_SHARE;
+	let start = messages.length;
+	let tokens = 0;
+	for (let index = messages.length - 1; index >= 0; index--) {
+		tokens += estimateTokens(messages[index]);
+		if (messages[index].role !== "user") {
+			continue;
+		}
+		if (tokens > limit && start < messages.length) {
+			break;
+		}
+		start = index;
+	}
+	return start === messages.length ? 0 : start;
+}
+
+/** Renders messages as plain text for the summarizer. */
+export function formatTranscript(messages: ChatCompletionMessageParam[]) {
+	return messages
+		.map((message) => {
+			const content = describeContent(message.content);
+			if (message.role === "assistant" && message.tool_calls?.length) {
+				const calls = message.tool_calls
+					.map(
+						(toolCall) =>
+							`${toolCall.function.name}(${toolCall.function.arguments})`,
+					)
+					.join(", ");
+				return `assistant: ${content}\nassistant called: ${calls}`;
+			}
+			return `${message.role}: ${content}`;
+		})
+		.join("\n\n");
+}
+
+/** Splits messages into consecutive batches of at most `maxTokens` each. */
+export function batchByTokens(
+	messages: ChatCompletionMessageParam[],
+	maxTokens: number,
+) {
+	const batches: ChatCompletionMessageParam[][] = [];
+	let batch: ChatCompletionMessageParam[] = [];
+	let tokens = 0;
+	for (const message of messages) {
+		const messageTokens = estimateTokens(message);
+		if (batch.length > 0 && tokens + messageTokens > maxTokens) {
+			batches.push(batch);
+			batch = [];
+			tokens = 0;
+		}
+		batch.push(message);
+		tokens += messageTokens;
+	}
+	if (batch.length > 0) {
+		batches.push(batch);
+	}
+	return batches;
+}
@@ -0,0 +1,123 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+
+/**
+ * Retrieval over documents attached to a conversation. Chunks are embedded
+ * with a Workers AI embedding model and searched by brute-force cosine
+ * similarity, which is plenty for the handful of documents a conversation
+ * holds.
+ */
+
+export const EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+
+// The embedding model takes at most 100 texts per request.
+export const EMBEDDING_BATCH_SIZE = 100;
+
+export const SUPPORTED_DOCUMENT_TYPES = [
+	"application/pdf",
+	"text/plain",
+	"text/markdown",
+];
+
+export const MAX_DOCUMENT_BYTES = 10_000_000;
+
+// Every chunk of a conversation is scored on each turn, so the number of
+// chunks is capped as well as the size of the upload.
+export const MAX_DOCUMENT_CHUNKS = 500;
+export const MAX_CONVERSATION_CHUNKS = 2000;
+
+// Chunks are scored a page at a time, so only one page of embeddings is in
+// memory at once.
+export const RETRIEVAL_SCAN_PAGE_SIZE = 200;
+
+// bge models read up to 512 tokens, roughly 2000 characters; smaller chunks
+// keep citations precise.
+const CHUNK_CHARACTERS = 1200;
+const CHUNK_OVERLAP_CHARACTERS = 200;
+
+export const RETRIEVAL_TOP_K = 4;
+
+// bge similarities below this are rarely about the same thing.
+export const MIN_RETRIEVAL_SIMILARITY = 0.5;
+
+export type RetrievedChunk = {
+	chunkId: string;
+	documentId: string;
+	documentName: string;
+	chunkIndex: number;
+	content: string;
+	score: number;
+};
+
+/**
+ * Splits text into chunks along paragraph boundaries. Paragraphs longer than
+ * a chunk are cut at word boundaries, overlapping so no sentence is lost.
+ */
+export function chunkText(text: string) {
+	const chunks: string[] = [];
+	let current = "";
+	for (const paragraph of text.split(/\n\s*\n/)) {
+		const trimmed = paragraph.trim();
+		if (!trimmed) {
+			continue;
+		}
+		if (current && current.length + trimmed.length + 2 > CHUNK_CHARACTERS) {
+			chunks.push(current);
+			current = "";
+		}
+		if (trimmed.length <= CHUNK_CHARACTERS) {
+			current = current ? `${current}\n\n${trimmed}` : trimmed;
+			continue;
+		}
+		let start = 0;
+		while (start < trimmed.length) {
+			let end = Math.min(start + CHUNK_CHARACTERS, trimmed.length);
+			if (end < trimmed.length) {
+				const space = trimmed.lastIndexOf(" ", end);
+				if (space > start + CHUNK_CHARACTERS / 2) {
+					end = space;
+				}
+			}
+			chunks.push(trimmed.slice(start, end).trim());
+			if (end >= trimmed.length) {
+				break;
+			}
+			start = Math.max(end - CHUNK_OVERLAP_CHARACTERS, start + 1);
+			const nextWord = trimmed.indexOf(" ", start);
+			if (nextWord !== -1 && nextWord < end) {
+				start = nextWord + 1;
+			}
+		}
+	}
+	if (current) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** A system message quoting `chunks`, numbered the way answers cite them. */
+export function toDocumentContextMessage(
+	chunks: RetrievedChunk[],
+): ChatCompletionMessageParam {
+	const excerpts = chunks
+		.map(
+			(chunk, index) =>
+				`[${index + 1}] ${chunk.documentName}:\n${chunk.content}`,
+		)
+		.join("\n\n");
+	return {
+		role: "system",
+		content: `Excerpts from documents attached to this conversation:\n\n${excerpts}\n\nUse them when they help answer the next message, citing them by number like [1]. Say so if they don't contain the answer.`,
+	};
+}
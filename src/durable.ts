@@ -6,79 +6,328 @@ import {
 import { migrate } from "drizzle-orm/durable-sqlite/migrator";
 import { OpenAI } from "openai";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { and, eq, inArray, lt, or, sql } from "drizzle-orm";
 import { zodResponseFormat } from "openai/helpers/zod";
-import type { ChatCompletionTool } from "openai/resources/chat/completions";
+import type {
+	ChatCompletionMessageParam,
+	ChatCompletionMessageToolCall,
+	ChatCompletionTool,
+} from "openai/resources/chat/completions";
 
 const ConversationTitleExtraction = z.object({
 	title: z.string(),
 });
 
+const ConversationSummaryExtraction = z.object({
+	summary: z.string(),
+});
+
+const MemoryExtraction = z.object({
+	memories: z.array(z.string()),
+});
+
+// Bounds the system message memories are sent in. Past it the oldest
+// extracted memories are dropped; ones the user added are never dropped, so
+// adding more is refused instead.
+const MAX_MEMORIES = 100;
+
+// Upper bound on model round trips per turn, so a model that keeps calling
+// tools can't loop forever.
+const MAX_TOOL_ROUNDS = 5;
+
+// Largest slice of old turns sent to the summarizer in one request.
+const SUMMARY_BATCH_TOKENS = 60000;
+
+// How long buffered stream events stay replayable after they were sent.
+const STREAM_EVENT_RETENTION_MS = 10 * 60 * 1000;
+
 import migrations from "drizzle/migrations";
 import * as schema from "drizzle/schema";
+import {
+	batchByTokens,
+	estimateHistoryTokens,
+	estimateTokens,
+	findRecentHistoryStart,
+	formatTranscript,
+	getHistoryBudget,
+} from "~/context-window";
+import {
+	getLatestLeaf,
+	getPath,
+	getSiblings,
+	withVersions,
+} from "~/message-tree";
+import {
+	describeContent,
+	getAttachmentIds,
+	getTextContent,
+	UNUSED_ATTACHMENT_TTL_MS,
+} from "~/attachments";
+import { bytesToBase64, getBase64Size } from "~/base64";
+import { toChatCompletionMessage } from "~/chat-messages";
+import {
+	chunkText,
+	cosineSimilarity,
+	EMBEDDING_BATCH_SIZE,
+	EMBEDDING_MODEL,
+	MAX_CONVERSATION_CHUNKS,
+	MAX_DOCUMENT_CHUNKS,
+	MIN_RETRIEVAL_SIMILARITY,
+	RETRIEVAL_SCAN_PAGE_SIZE,
+	RETRIEVAL_TOP_K,
+	type RetrievedChunk,
+	toDocumentContextMessage,
+} from "~/documents";
+import type { ExportedConversation } from "~/export";
+import {
+	DEFAULT_MODEL,
+	type ResolvedGenerationParameters,
+	resolveGenerationParameters,
+} from "~/generation-settings";
+import {
+	findModel,
+	getModelCatalog,
+	validateChatRequest,
+} from "~/model-catalog";
+import {
+	type ChatCompletionRequest,
+	ChatCompletionRequestSchema,
+	CONVERSATION_NAME_HEADER,
+	openAIErrorResponse,
+	toServerSentEvent,
+} from "~/openai-compat";
+import {
+	getMemoryExtractionPrompt,
+	getMemorySystemPrompt,
+} from "~/prompts/memory";
+import { getContinuationPrompt } from "~/prompts/continue";
+import { getConversationSummaryPrompt } from "~/prompts/summary";
+import { formatZodError } from "~/schemas";
+import { createSnippetMarkers, renderSnippet, toFtsQuery } from "~/search";
+import { getShareKey, type ShareSnapshot } from "~/share";
+import { serverTools } from "~/tools";
+import {
+	findExceededLimit,
+	getUsageDay,
+	getUsageLimits,
+	type UsageKind,
+	type UsageTotals,
+} from "~/usage";
+import {
+	negotiateProtocolVersion,
+	parseClientMessage,
+	PING_FRAME,
+	PONG_FRAME,
+	SUPPORTED_PROTOCOL_VERSIONS,
+	type WebSocketAttachment,
+	type WebSocketBroadcastMessage,
+	type WebSocketChatContinueMessage,
+	type WebSocketChatMessageEditMessage,
+	type WebSocketChatRegenerateMessage,
+	type WebSocketChatStreamCancelMessage,
+	type WebSocketChatStreamCreateMessage,
+	type WebSocketChatStreamResumeMessage,
+	type WebSocketCitation,
+	type WebSocketGenerationMetadata,
+	type WebSocketErrorCode,
+	type WebSocketHelloMessage,
+	type WebSocketSequencedEvent,
+	type WebSocketServerMessage,
+	type WebSocketStreamDoneMessage,
+	type WebSocketStreamEvent,
+	type WebSocketStreamMessage,
+	type WebSocketToolCallMessage,
+	type WebSocketToolResultMessage,
+	WebSocketServerMessageSchema,
+} from "~/websocket-protocol";
 
-export type WebSocketChatStreamCreateMessage = {
-	type: "chat.stream.create";
-	eventId: string;
-	conversationId: string;
-	content: string;
-	model: string;
-	tools: Array<ChatCompletionTool>;
-};
+// Events whose arrival means the stream has ended.
+const TERMINAL_STREAM_EVENTS = [
+	"chat.stream.done",
+	"error",
+	"usage.limit.exceeded",
+];
 
-export type WebSocketChatStreamCancelMessage = {
-	type: "chat.stream.cancel";
-	eventId: string;
-	conversationId: string;
+// Where stream events go: a WebSocket, or the body of a StreamChat RPC.
+type StreamTarget = {
+	send(data: string): void;
 };
 
-export type WebSocketChatRegenerateMessage = {
-	type: "chat.regenerate";
-	eventId: string;
-	conversationId: string;
-	model: string;
-	tools: Array<ChatCompletionTool>;
-};
+type ChatStreamRequest =
+	| WebSocketChatStreamCreateMessage
+	| WebSocketChatRegenerateMessage
+	| WebSocketChatMessageEditMessage
+	| WebSocketChatContinueMessage;
 
-export type WebSocketStreamMessage = {
-	type: "chat.stream.response";
+// An in-flight generation, registered under its event id until it finishes.
+type ChatStream = {
 	eventId: string;
 	conversationId: string;
-	content: string;
+	startedAt: string;
+	abortController: AbortController;
+	sequence: number;
+	// Null while the client is disconnected; generation carries on regardless.
+	target: StreamTarget | null;
 };
 
-export type WebSocketStreamDoneMessage = {
-	type: "chat.stream.done";
-	eventId: string;
-	conversationId: string;
-	function_call: {
-		name: string;
-		arguments: string;
-	} | null;
-};
+function toSummaryMessage(summary: string): ChatCompletionMessageParam {
+	return {
+		role: "system",
+		content: `Summary of the earlier part of this conversation:\n${summary}`,
+	};
+}
 
-export type WebSocketConversationTitleMessage = {
-	type: "conversation.title.update";
-	eventId: string;
-	conversationId: string;
-	title: string;
-};
+function toStoredContent(
+	content: WebSocketChatStreamCreateMessage["content"],
+): { content: string; content_parts: schema.MessageContentPart[] | null } {
+	if (typeof content === "string") {
+		return { content, content_parts: null };
+	}
+	const parts = content.map(
+		(part): schema.MessageContentPart =>
+			part.type === "text"
+				? part
+				: { type: "image", attachment_id: part.attachmentId },
+	);
+	return { content: getTextContent(parts), content_parts: parts };
+}
 
-export type WebSocketClientMessage =
-	| WebSocketChatStreamCreateMessage
-	| WebSocketChatStreamCancelMessage
-	| WebSocketConversationTitleMessage
-	| WebSocketChatRegenerateMessage;
+type GenerationMetadata = Pick<
+	typeof schema.messages.$inferInsert,
+	| "model"
+	| "prompt_tokens"
+	| "completion_tokens"
+	| "time_to_first_token_ms"
+	| "latency_ms"
+	| "finish_reason"
+	| "status"
+>;
+
+// Streamed tool calls arrive in pieces, keyed by their index in the reply.
+type ToolCallDeltas = Map<
+	number,
+	OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall
+>;
+
+function addToolCallDeltas(
+	toolCallMap: ToolCallDeltas,
+	deltas: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall[],
+) {
+	for (const toolCall of deltas) {
+		const existingToolCall = toolCallMap.get(toolCall.index);
+		if (existingToolCall) {
+			if (toolCall.function?.name) {
+				existingToolCall.function = existingToolCall.function || {};
+				existingToolCall.function.name = toolCall.function.name;
+			}
+			if (toolCall.function?.arguments) {
+				existingToolCall.function = existingToolCall.function || {};
+				existingToolCall.function.arguments =
+					(existingToolCall.function.arguments || "") +
+					toolCall.function.arguments;
+			}
+			if (toolCall.id) {
+				existingToolCall.id = toolCall.id;
+			}
+			if (toolCall.type) {
+				existingToolCall.type = toolCall.type;
+			}
+		} else {
+			toolCallMap.set(toolCall.index, {
+				index: toolCall.index,
+				id: toolCall.id,
+				type: toolCall.type,
+				function: {
+					name: toolCall.function?.name,
+					arguments: toolCall.function?.arguments || "",
+				},
+			});
+		}
+	}
+}
+
+function toToolCalls(toolCallMap: ToolCallDeltas) {
+	const toolCalls: ChatCompletionMessageToolCall[] = [];
+	for (const toolCall of toolCallMap.values()) {
+		const name = toolCall.function?.name;
+		if (!name) {
+			continue;
+		}
+		toolCalls.push({
+			// Not every Workers AI model sends call ids.
+			id: toolCall.id || `call_${crypto.randomUUID()}`,
+			type: "function",
+			function: {
+				name,
+				arguments: toolCall.function?.arguments || "",
+			},
+		});
+	}
+	return toolCalls;
+}
+
+function getMessageStatus({
+	aborted,
+	failed,
+	finishReason,
+}: {
+	aborted: boolean;
+	failed: boolean;
+	finishReason: string | null;
+}): schema.MessageStatus {
+	if (aborted) {
+		return "cancelled";
+	}
+	if (failed) {
+		return "error";
+	}
+	return finishReason === "length" ? "truncated" : "complete";
+}
+
+function toGenerationMetadata(
+	message: typeof schema.messages.$inferSelect,
+): WebSocketGenerationMetadata {
+	return {
+		messageId: message.id,
+		model: message.model ?? "",
+		promptTokens: message.prompt_tokens ?? 0,
+		completionTokens: message.completion_tokens ?? 0,
+		timeToFirstTokenMs: message.time_to_first_token_ms,
+		latencyMs: message.latency_ms ?? 0,
+		finishReason: message.finish_reason,
+		status: message.status ?? "complete",
+	};
+}
+
+/**
+ * Checks a message against the protocol before it goes out. A message that
+ * doesn't match is a server bug; it's logged and dropped rather than sent to
+ * clients that would reject it.
+ */
+function serializeServerMessage(message: WebSocketServerMessage) {
+	const parsed = WebSocketServerMessageSchema.safeParse(message);
+	if (!parsed.success) {
+		console.error(
+			`Invalid ${message.type} message: ${formatZodError(parsed.error)}`,
+		);
+		return null;
+	}
+	return JSON.stringify(parsed.data);
+}
 
-export type WebSocketServerMessage =
-	| WebSocketStreamMessage
-	| WebSocketStreamDoneMessage
-	| WebSocketConversationTitleMessage;
+export type ConversationCursor = {
+	pinned: boolean;
+	updatedAt: string;
+	id: string;
+};
 
 export class WorkersAIDurableObject extends DurableObject<Env> {
 	db: DrizzleSqliteDODatabase<typeof schema>;
 	workersAI: OpenAI;
-	abortController: AbortController;
+	// Start times of metered requests in the last minute. Losing them when the
+	// object is evicted only makes the per-minute limit more lenient.
+	recentRequests: number[];
+	streams: Map<string, ChatStream>;
 
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
@@ -90,7 +339,11 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 				"cf-aig-authorization": `Bearer ${env.CLOUDFLARE_AI_GATEWAY_TOKEN}`,
 			},
 		});
-		this.abortController = new AbortController();
+		this.recentRequests = [];
+		this.streams = new Map();
+		ctx.setWebSocketAutoResponse(
+			new WebSocketRequestResponsePair(PING_FRAME, PONG_FRAME),
+		);
 		ctx.blockConcurrencyWhile(async () => {
 			try {
 				await migrate(this.db, migrations);
@@ -102,6 +355,13 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 	}
 
 	async fetch(request: Request): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		if (pathname === "/v1/chat/completions") {
+			return await this.handleChatCompletions(request);
+		}
+		if (pathname === "/v1/models") {
+			return await this.handleListModels();
+		}
 		const webSocketPair = new WebSocketPair();
 		const [client, server] = Object.values(webSocketPair);
 		this.ctx.acceptWebSocket(server);
@@ -111,174 +371,780 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 		});
 	}
 
+	/**
+	 * OpenAI-compatible chat completions. Tools are passed through to the
+	 * model but not run; the caller handles tool calls as with OpenAI.
+	 */
+	private async handleChatCompletions(request: Request) {
+		let body: unknown;
+		try {
+			body = await request.json();
+		} catch {
+			return openAIErrorResponse(
+				400,
+				"Request body must be JSON.",
+				"invalid_request_error",
+			);
+		}
+		const parsed = ChatCompletionRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return openAIErrorResponse(
+				400,
+				formatZodError(parsed.error),
+				"invalid_request_error",
+			);
+		}
+		const invalid = await validateChatRequest(this.env, {
+			model: parsed.data.model,
+			hasTools: (parsed.data.tools ?? []).length > 0,
+			hasImages: false,
+		});
+		if (invalid) {
+			return openAIErrorResponse(400, invalid, "invalid_request_error");
+		}
+		const exceeded = await this.beginRequest("chat");
+		if (exceeded) {
+			return openAIErrorResponse(429, exceeded.message, "rate_limit_error", {
+				"Retry-After": String(exceeded.retryAfterSeconds),
+			});
+		}
+		const conversationName = request.headers.get(CONVERSATION_NAME_HEADER);
+		const { messages, stream, stream_options, ...params } = parsed.data;
+		const requestedAt = Date.now();
+		try {
+			if (!stream) {
+				const completion = await this.workersAI.chat.completions.create({
+					...params,
+					messages,
+					stream: false,
+				});
+				await this.recordCompletionUsage(completion.usage);
+				const choice = completion.choices[0];
+				if (conversationName && choice) {
+					await this.saveExchange(conversationName, messages, {
+						content: choice.message.content ?? "",
+						tool_calls: choice.message.tool_calls ?? null,
+						metadata: {
+							model: params.model,
+							prompt_tokens: completion.usage?.prompt_tokens ?? null,
+							completion_tokens: completion.usage?.completion_tokens ?? null,
+							latency_ms: Date.now() - requestedAt,
+							finish_reason: choice.finish_reason,
+							status: getMessageStatus({
+								aborted: false,
+								failed: false,
+								finishReason: choice.finish_reason,
+							}),
+						},
+					});
+				}
+				return Response.json(completion);
+			}
+			const completionStream = await this.workersAI.chat.completions.create({
+				...params,
+				messages,
+				stream: true,
+				stream_options: { include_usage: true },
+			});
+			const { readable, writable } = new TransformStream<
+				Uint8Array,
+				Uint8Array
+			>();
+			const writer = writable.getWriter();
+			const encoder = new TextEncoder();
+			this.ctx.waitUntil(
+				(async () => {
+					let content = "";
+					let usage: OpenAI.CompletionUsage | undefined;
+					let firstTokenAt: number | null = null;
+					let finishReason: string | null = null;
+					let completed = false;
+					const toolCallMap: ToolCallDeltas = new Map();
+					try {
+						for await (const chunk of completionStream) {
+							usage = chunk.usage ?? usage;
+							const delta = chunk.choices[0]?.delta;
+							if (delta?.content || delta?.tool_calls?.length) {
+								firstTokenAt ??= Date.now();
+							}
+							content += delta?.content ?? "";
+							addToolCallDeltas(toolCallMap, delta?.tool_calls ?? []);
+							finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+							// Usage is always requested for metering, but only forwarded
+							// to callers that asked for it.
+							if (
+								chunk.choices.length === 0 &&
+								!stream_options?.include_usage
+							) {
+								continue;
+							}
+							await writer.write(encoder.encode(toServerSentEvent(chunk)));
+						}
+						await writer.write(encoder.encode(toServerSentEvent("[DONE]")));
+						completed = true;
+					} catch (error) {
+						console.error("Error streaming chat completion:", error);
+					} finally {
+						await writer.close().catch(() => {});
+					}
+					const promptTokens =
+						usage?.prompt_tokens ?? estimateHistoryTokens(messages);
+					const completionTokens =
+						usage?.completion_tokens ??
+						estimateTokens({ role: "assistant", content });
+					await this.recordUsage({ promptTokens, completionTokens });
+					if (conversationName && completed) {
+						const toolCalls = toToolCalls(toolCallMap);
+						await this.saveExchange(conversationName, messages, {
+							content,
+							tool_calls: toolCalls.length > 0 ? toolCalls : null,
+							metadata: {
+								model: params.model,
+								prompt_tokens: promptTokens,
+								completion_tokens: completionTokens,
+								time_to_first_token_ms:
+									firstTokenAt === null ? null : firstTokenAt - requestedAt,
+								latency_ms: Date.now() - requestedAt,
+								finish_reason: finishReason,
+								status: getMessageStatus({
+									aborted: false,
+									failed: false,
+									finishReason,
+								}),
+							},
+						});
+					}
+				})(),
+			);
+			return new Response(readable, {
+				headers: {
+					"Content-Type": "text/event-stream",
+					"Cache-Control": "no-cache",
+				},
+			});
+		} catch (error) {
+			if (error instanceof OpenAI.APIError) {
+				return openAIErrorResponse(
+					error.status ?? 502,
+					error.message,
+					"api_error",
+				);
+			}
+			throw error;
+		}
+	}
+
+	private async handleListModels() {
+		const models = await getModelCatalog(this.env);
+		return Response.json({
+			object: "list",
+			data: models
+				.filter((model) => model.task === "text-generation")
+				.map((model) => ({
+					id: model.name,
+					object: "model",
+					created: 0,
+					owned_by: "cloudflare",
+				})),
+		});
+	}
+
+	/**
+	 * Appends the request's trailing user and tool messages and the reply to
+	 * the named conversation. Earlier messages are assumed to be stored
+	 * already, as callers resend the whole history on every request.
+	 */
+	private async saveExchange(
+		conversationName: string,
+		messages: ChatCompletionRequest["messages"],
+		reply: {
+			content: string;
+			tool_calls: ChatCompletionMessageToolCall[] | null;
+			metadata: GenerationMetadata;
+		},
+	) {
+		let conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.title, conversationName);
+			},
+			orderBy(fields, operators) {
+				return operators.desc(fields.updated_at);
+			},
+		});
+		if (!conversation) {
+			[conversation] = await this.db
+				.insert(schema.conversations)
+				.values({ user_id: "1", title: conversationName })
+				.returning();
+			this.broadcast({ type: "conversation.created", conversation });
+		}
+		const conversationId = conversation.id;
+		let parentId = conversation.active_message_id;
+		let firstNewMessage = messages.length;
+		while (
+			firstNewMessage > 0 &&
+			["user", "tool"].includes(messages[firstNewMessage - 1].role)
+		) {
+			firstNewMessage--;
+		}
+		for (const message of messages.slice(firstNewMessage)) {
+			if (message.role !== "user" && message.role !== "tool") {
+				continue;
+			}
+			const [newMessage] = await this.db
+				.insert(schema.messages)
+				.values({
+					user_id: "1",
+					conversation_id: conversationId,
+					parent_id: parentId,
+					role: message.role,
+					content: message.content,
+					tool_call_id: message.role === "tool" ? message.tool_call_id : null,
+				})
+				.returning();
+			this.broadcast({
+				type: "message.created",
+				conversationId,
+				message: newMessage,
+			});
+			parentId = newMessage.id;
+		}
+		const [assistantMessage] = await this.db
+			.insert(schema.messages)
+			.values({
+				user_id: "1",
+				conversation_id: conversationId,
+				parent_id: parentId,
+				role: "assistant",
+				content: reply.content,
+				tool_calls: reply.tool_calls,
+				...reply.metadata,
+			})
+			.returning();
+		this.broadcast({
+			type: "message.created",
+			conversationId,
+			message: assistantMessage,
+		});
+		await this.db
+			.update(schema.conversations)
+			.set({
+				active_message_id: assistantMessage.id,
+				updated_at: new Date().toISOString(),
+			})
+			.where(eq(schema.conversations.id, conversationId));
+		await this.broadcastConversation(conversationId);
+	}
+
 	async webSocketMessage(
 		ws: WebSocket,
 		message: string | ArrayBuffer,
 	): Promise<void> {
-		const parsedMessage = JSON.parse(
-			message as string,
-		) as WebSocketClientMessage;
+		if (typeof message !== "string") {
+			this.sendError(
+				ws,
+				null,
+				"invalid_message",
+				"Binary frames are not supported.",
+			);
+			return;
+		}
+		const parsed = parseClientMessage(message);
+		if (!parsed.success) {
+			this.sendError(ws, parsed.eventId, "invalid_message", parsed.error);
+			return;
+		}
+		const parsedMessage = parsed.message;
+		if (parsedMessage.type === "hello") {
+			this.handleHello(ws, parsedMessage);
+			return;
+		}
+		if (parsedMessage.type === "ping") {
+			// Pings that don't match the auto-response frame exactly land here.
+			this.send(ws, { type: "pong" });
+			return;
+		}
+		if (!ws.deserializeAttachment()) {
+			this.sendError(
+				ws,
+				parsedMessage.eventId,
+				"handshake_required",
+				"Send a hello message before anything else.",
+			);
+			return;
+		}
 		switch (parsedMessage.type) {
 			case "chat.stream.create":
-				await this.handleChat(ws, parsedMessage);
+			case "chat.regenerate":
+			case "chat.message.edit":
+			case "chat.continue":
+				await this.runStream(ws, parsedMessage);
 				break;
 			case "chat.stream.cancel":
-				this.abortController.abort();
+				this.cancelStream(parsedMessage);
 				break;
-			case "chat.regenerate":
-				await this.handleRegenerate(ws, parsedMessage);
+			case "chat.stream.resume":
+				await this.resumeStream(ws, parsedMessage);
 				break;
 		}
 	}
 
-	// workers ai doesn't support openai entrypoint tools
-	private async handleChat(
+	private handleHello(
 		ws: WebSocket,
-		parsedMessage: WebSocketChatStreamCreateMessage,
+		{ protocolVersions }: WebSocketHelloMessage,
+	) {
+		const protocolVersion = negotiateProtocolVersion(protocolVersions);
+		if (protocolVersion === null) {
+			this.sendError(
+				ws,
+				null,
+				"unsupported_protocol_version",
+				`Supported protocol versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}.`,
+			);
+			return;
+		}
+		const attachment: WebSocketAttachment = { protocolVersion };
+		ws.serializeAttachment(attachment);
+		this.send(ws, { type: "hello", protocolVersion });
+	}
+
+	private send(target: StreamTarget, message: WebSocketServerMessage) {
+		const data = serializeServerMessage(message);
+		if (data) {
+			target.send(data);
+		}
+	}
+
+	private sendError(
+		target: StreamTarget,
+		eventId: string | null,
+		code: WebSocketErrorCode,
+		message: string,
+	) {
+		this.send(target, { type: "error", eventId, code, message });
+	}
+
+	async webSocketClose(ws: WebSocket): Promise<void> {
+		this.detachTarget(ws);
+	}
+
+	private detachTarget(target: StreamTarget) {
+		for (const stream of this.streams.values()) {
+			if (stream.target === target) {
+				stream.target = null;
+			}
+		}
+	}
+
+	/**
+	 * Runs a generation for a chat request received over a WebSocket or the
+	 * StreamChat RPC. The returned stream carries the same events as the
+	 * socket, one JSON document per line.
+	 */
+	streamChat(request: ChatStreamRequest): ReadableStream<Uint8Array> {
+		const { readable, writable } = new TransformStream<
+			Uint8Array,
+			Uint8Array
+		>();
+		const writer = writable.getWriter();
+		const encoder = new TextEncoder();
+		// Writes fail asynchronously once the RPC client has gone away, so the
+		// first failure detaches the target; generation carries on as it does
+		// for a closed socket.
+		let detached = false;
+		const target: StreamTarget = {
+			send: (data) => {
+				writer.write(encoder.encode(`${data}\n`)).catch((error) => {
+					if (detached) {
+						return;
+					}
+					detached = true;
+					console.warn(
+						`Detaching target from stream ${request.eventId} after a failed write:`,
+						error,
+					);
+					this.detachTarget(target);
+				});
+			},
+		};
+		this.ctx.waitUntil(
+			this.runStream(target, request)
+				.catch((error) => {
+					console.error(`Error in stream ${request.eventId}:`, error);
+				})
+				.finally(() => writer.close().catch(() => {})),
+		);
+		return readable;
+	}
+
+	private async runStream(
+		target: StreamTarget,
+		parsedMessage: ChatStreamRequest,
 	) {
-		const { eventId, content, conversationId } = parsedMessage;
-		this.abortController = new AbortController();
+		const { eventId, conversationId } = parsedMessage;
+		if (this.streams.has(eventId)) {
+			this.sendError(
+				target,
+				eventId,
+				"already_exists",
+				"A stream with this event id is already running.",
+			);
+			return;
+		}
+		const maxGenerations = Number(this.env.MAX_CONCURRENT_GENERATIONS) || 0;
+		const atCapacity =
+			maxGenerations > 0 && this.streams.size >= maxGenerations;
+		const chatStream = await this.openStream(target, eventId, conversationId);
 		try {
+			if (atCapacity) {
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "resource_exhausted",
+					message: `At most ${maxGenerations} replies can be generated at once.`,
+				});
+				return;
+			}
+			const settings = await this.getSettings();
 			const conversation = await this.db.query.conversations.findFirst({
 				where(fields, operators) {
 					return operators.eq(fields.id, conversationId);
 				},
 			});
-			if (!conversation) {
-				throw new Error(`Conversation not found: ${conversationId}`);
-			}
-			await this.db.insert(schema.messages).values({
-				user_id: "1",
-				conversation_id: conversationId,
-				role: "user",
-				content,
+			const messages = await this.getConversationMessages(conversationId);
+			// A continuation sticks to the model that wrote the message.
+			const continuedMessage =
+				parsedMessage.type === "chat.continue"
+					? messages.find(({ id }) => id === parsedMessage.messageId)
+					: undefined;
+			// The history sent along with the request, whose images count too.
+			const historyLeafId =
+				parsedMessage.type === "chat.continue"
+					? parsedMessage.messageId
+					: parsedMessage.type === "chat.message.edit"
+						? (messages.find(({ id }) => id === parsedMessage.messageId)
+								?.parent_id ?? null)
+						: (conversation?.active_message_id ?? null);
+			const historyHasImages = getPath(messages, historyLeafId).some(
+				({ content_parts }) => getAttachmentIds(content_parts).length > 0,
+			);
+			const model =
+				parsedMessage.model ??
+				continuedMessage?.model ??
+				conversation?.model ??
+				settings.defaultModel ??
+				DEFAULT_MODEL;
+			const invalid = await validateChatRequest(this.env, {
+				model,
+				hasTools:
+					parsedMessage.type !== "chat.continue" &&
+					parsedMessage.tools.length > 0,
+				hasImages:
+					historyHasImages ||
+					((parsedMessage.type === "chat.stream.create" ||
+						parsedMessage.type === "chat.message.edit") &&
+						typeof parsedMessage.content !== "string" &&
+						parsedMessage.content.some((part) => part.type === "image")),
 			});
-			const messages = await this.db.query.messages.findMany({
-				columns: {
-					role: true,
-					content: true,
-				},
-				where(fields, operators) {
-					return operators.eq(fields.conversation_id, conversationId);
-				},
-				orderBy(fields, operators) {
-					return operators.asc(fields.created_at);
-				},
+			if (invalid) {
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "invalid_argument",
+					message: invalid,
+				});
+				return;
+			}
+			const resolved = await resolveGenerationParameters(this.env, model, {
+				request: parsedMessage.parameters,
+				conversation: conversation?.generation,
+				user: settings.generation,
 			});
-			const stream = await this.workersAI.chat.completions.create(
-				{
-					model: parsedMessage.model,
-					messages,
-					reasoning_effort: "low",
-					stream: true,
-					store: true,
-					max_completion_tokens: 10000,
-				},
-				{
-					signal: this.abortController.signal,
-				},
+			if (!resolved.success) {
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "invalid_argument",
+					message: resolved.error,
+				});
+				return;
+			}
+			const exceeded = await this.beginRequest("chat");
+			if (exceeded) {
+				await this.emit(chatStream, {
+					type: "usage.limit.exceeded",
+					eventId,
+					conversationId,
+					...exceeded,
+				});
+				return;
+			}
+			switch (parsedMessage.type) {
+				case "chat.stream.create":
+				case "chat.message.edit":
+					await this.handleChat(chatStream, parsedMessage, resolved.parameters);
+					break;
+				case "chat.regenerate":
+					await this.handleRegenerate(
+						chatStream,
+						parsedMessage,
+						resolved.parameters,
+					);
+					break;
+				case "chat.continue":
+					await this.handleContinue(
+						chatStream,
+						parsedMessage,
+						resolved.parameters,
+					);
+					break;
+			}
+		} finally {
+			this.streams.delete(eventId);
+		}
+	}
+
+	private async openStream(
+		target: StreamTarget,
+		eventId: string,
+		conversationId: string,
+	) {
+		// A reused event id starts over rather than appending to old events.
+		await this.db
+			.delete(schema.streamEvents)
+			.where(
+				or(
+					eq(schema.streamEvents.event_id, eventId),
+					lt(
+						schema.streamEvents.created_at,
+						new Date(Date.now() - STREAM_EVENT_RETENTION_MS).toISOString(),
+					),
+				),
+			);
+		const chatStream: ChatStream = {
+			eventId,
+			conversationId,
+			startedAt: new Date().toISOString(),
+			abortController: new AbortController(),
+			sequence: 0,
+			target,
+		};
+		this.streams.set(eventId, chatStream);
+		return chatStream;
+	}
+
+	cancelStream({
+		eventId,
+		conversationId,
+	}: Pick<WebSocketChatStreamCancelMessage, "eventId" | "conversationId">) {
+		const chatStream = this.streams.get(eventId);
+		if (chatStream?.conversationId === conversationId) {
+			chatStream.abortController.abort();
+		}
+	}
+
+	/**
+	 * Numbers `message`, buffers it for `chat.stream.resume` and sends it to
+	 * the stream's target, if one is attached.
+	 */
+	private async emit(chatStream: ChatStream, message: WebSocketStreamEvent) {
+		chatStream.sequence++;
+		const sequencedMessage: WebSocketSequencedEvent = {
+			...message,
+			sequence: chatStream.sequence,
+		};
+		const data = JSON.stringify(sequencedMessage);
+		await this.db.insert(schema.streamEvents).values({
+			event_id: chatStream.eventId,
+			sequence: chatStream.sequence,
+			type: message.type,
+			data,
+		});
+		if (!chatStream.target) {
+			return;
+		}
+		try {
+			chatStream.target.send(data);
+		} catch (error) {
+			console.warn(
+				`Detaching target from stream ${chatStream.eventId} after a failed send:`,
+				error,
 			);
-			let response = "";
+			chatStream.target = null;
+		}
+	}
+
+	/**
+	 * Replays the buffered events after `lastSequence`, then attaches `ws` to
+	 * the stream if it is still generating.
+	 */
+	private async resumeStream(
+		ws: WebSocket,
+		{ eventId, lastSequence }: WebSocketChatStreamResumeMessage,
+	) {
+		const events = await this.db.query.streamEvents.findMany({
+			where(fields, operators) {
+				return operators.eq(fields.event_id, eventId);
+			},
+			orderBy(fields, operators) {
+				return operators.asc(fields.sequence);
+			},
+		});
+		for (const event of events) {
+			if (event.sequence > lastSequence) {
+				ws.send(event.data);
+			}
+		}
+		const chatStream = this.streams.get(eventId);
+		if (chatStream) {
+			chatStream.target = ws;
+			return;
+		}
+		if (!events.some(({ type }) => TERMINAL_STREAM_EVENTS.includes(type))) {
+			// Expired, unknown, or cut short by the object restarting.
+			this.sendError(ws, eventId, "not_found", "The stream cannot be resumed.");
+		}
+	}
+
+	private broadcast(message: WebSocketBroadcastMessage) {
+		const data = serializeServerMessage(message);
+		if (!data) {
+			return;
+		}
+		for (const ws of this.ctx.getWebSockets()) {
+			if (!ws.deserializeAttachment()) {
+				continue;
+			}
 			try {
-				const toolCallMap = new Map<
-					number,
-					OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall
-				>();
-				for await (const chunk of stream) {
-					const delta = chunk.choices[0].delta;
-					console.log(delta);
-					let chunkContent = delta.content;
-					if (chunkContent) {
-						response += chunkContent;
-						const streamMessage: WebSocketStreamMessage = {
-							type: "chat.stream.response",
-							eventId,
-							conversationId,
-							content: chunkContent,
-						};
-						ws.send(JSON.stringify(streamMessage));
-					}
-					for (const toolCall of delta.tool_calls ?? []) {
-						const existingToolCall = toolCallMap.get(toolCall.index);
-						if (existingToolCall) {
-							if (toolCall.function?.name) {
-								existingToolCall.function = existingToolCall.function || {};
-								existingToolCall.function.name = toolCall.function.name;
-							}
-							if (toolCall.function?.arguments) {
-								existingToolCall.function = existingToolCall.function || {};
-								existingToolCall.function.arguments =
-									(existingToolCall.function.arguments || "") +
-									toolCall.function.arguments;
-							}
-							if (toolCall.id) {
-								existingToolCall.id = toolCall.id;
-							}
-							if (toolCall.type) {
-								existingToolCall.type = toolCall.type;
-							}
-						} else {
-							toolCallMap.set(toolCall.index, {
-								index: toolCall.index,
-								id: toolCall.id,
-								type: toolCall.type,
-								function: {
-									name: toolCall.function?.name,
-									arguments: toolCall.function?.arguments || "",
-								},
-							});
-						}
-					}
-					if (toolCallMap.size > 0) {
-						const toolCall = Array.from(toolCallMap.values())[0];
-						const name = toolCall?.function?.name;
-						if (name) {
-							const doneMessage: WebSocketStreamDoneMessage = {
-								type: "chat.stream.done",
-								eventId,
-								conversationId,
-								function_call: {
-									name,
-									arguments: toolCall?.function?.arguments || "",
-								},
-							};
-							ws.send(JSON.stringify(doneMessage));
-						}
-					}
-				}
-			} catch (error: unknown) {
-				if (error instanceof Error && error.name === "AbortError") {
-					console.log(`Stream aborted for conversation ${conversationId}`);
-				} else {
-					console.error(
-						`Error processing stream for conversation ${conversationId}:`,
-						error,
-					);
-					throw error;
-				}
+				ws.send(data);
+			} catch (error) {
+				console.warn(`Failed to broadcast ${message.type}:`, error);
 			}
-			const doneMessage: WebSocketStreamDoneMessage = {
-				type: "chat.stream.done",
-				eventId,
-				conversationId,
-				function_call: null,
-			};
-			ws.send(JSON.stringify(doneMessage));
-			await this.db.insert(schema.messages).values({
-				user_id: "1",
-				conversation_id: conversationId,
-				role: "assistant",
-				content: response,
-			});
-			await this.db
-				.update(schema.conversations)
-				.set({
-					updated_at: new Date().toISOString(),
+		}
+	}
+
+	private async broadcastConversation(conversationId: string) {
+		const conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, conversationId);
+			},
+		});
+		if (conversation) {
+			this.broadcast({ type: "conversation.updated", conversation });
+		}
+	}
+
+	// workers ai doesn't support openai entrypoint tools
+	private async handleChat(
+		chatStream: ChatStream,
+		parsedMessage:
+			| WebSocketChatStreamCreateMessage
+			| WebSocketChatMessageEditMessage,
+		parameters: ResolvedGenerationParameters,
+	) {
+		const { eventId, conversationId } = parsedMessage;
+		const storedContent = toStoredContent(parsedMessage.content);
+		try {
+			const attachmentIds = getAttachmentIds(storedContent.content_parts);
+			if (attachmentIds.length > 0) {
+				const found = await this.db
+					.select({ id: schema.attachments.id })
+					.from(schema.attachments)
+					.where(inArray(schema.attachments.id, attachmentIds));
+				if (found.length < new Set(attachmentIds).size) {
+					await this.emit(chatStream, {
+						type: "error",
+						eventId,
+						code: "invalid_argument",
+						message: "Unknown attachment.",
+					});
+					return;
+				}
+			}
+			const conversation = await this.db.query.conversations.findFirst({
+				where(fields, operators) {
+					return operators.eq(fields.id, conversationId);
+				},
+			});
+			if (!conversation) {
+				throw new Error(`Conversation not found: ${conversationId}`);
+			}
+			let parentId = conversation.active_message_id;
+			if (parsedMessage.type === "chat.message.edit") {
+				// The edited prompt becomes a sibling of the original, which keeps
+				// the original and everything after it on their own branch.
+				const editedMessage = await this.db.query.messages.findFirst({
+					where(fields, operators) {
+						return operators.and(
+							operators.eq(fields.id, parsedMessage.messageId),
+							operators.eq(fields.conversation_id, conversationId),
+						);
+					},
+				});
+				if (!editedMessage || editedMessage.role !== "user") {
+					console.warn(
+						`Cannot edit message ${parsedMessage.messageId} in conversation ${conversationId}`,
+					);
+					await this.emit(chatStream, {
+						type: "error",
+						eventId,
+						code: "invalid_argument",
+						message: "Only user messages can be edited.",
+					});
+					return;
+				}
+				parentId = editedMessage.parent_id;
+			}
+			const [userMessage] = await this.db
+				.insert(schema.messages)
+				.values({
+					user_id: "1",
+					conversation_id: conversationId,
+					parent_id: parentId,
+					role: "user",
+					...storedContent,
+				})
+				.returning();
+			this.broadcast({
+				type: "message.created",
+				conversationId,
+				message: userMessage,
+			});
+			await this.setActiveMessage(conversationId, userMessage.id);
+			const messages = getPath(
+				await this.getConversationMessages(conversationId),
+				userMessage.id,
+			);
+			const { history, citations } = await this.buildPrompt(
+				conversation,
+				parameters,
+				messages,
+			);
+			const { response, messageIds } = await this.generate(chatStream, {
+				eventId,
+				conversationId,
+				parameters,
+				tools: parsedMessage.tools ?? [],
+				history,
+				citations,
+				parentId: userMessage.id,
+			});
+			await this.db
+				.update(schema.conversations)
+				.set({
+					active_message_id:
+						messageIds[messageIds.length - 1] ?? userMessage.id,
+					updated_at: new Date().toISOString(),
 				})
 				.where(eq(schema.conversations.id, conversationId));
+			await this.broadcastConversation(conversationId);
 			if (conversation.title === null) {
 				const messagesForTitle = [
-					...messages,
+					...messages.flatMap(({ role, content }) =>
+						(role === "user" || role === "assistant") && content
+							? [{ role, content }]
+							: [],
+					),
 					{ role: "assistant" as const, content: response },
 				];
 				try {
@@ -298,6 +1164,7 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 						),
 						max_completion_tokens: 50,
 					});
+					await this.recordCompletionUsage(completion.usage);
 					const titleResponse = completion.choices[0].message;
 					const parsedTitle = ConversationTitleExtraction.parse(
 						JSON.parse(titleResponse.content || "{}"),
@@ -307,13 +1174,13 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 							.update(schema.conversations)
 							.set({ title: parsedTitle.title })
 							.where(eq(schema.conversations.id, conversationId));
-						const titleMessage: WebSocketConversationTitleMessage = {
+						await this.broadcastConversation(conversationId);
+						await this.emit(chatStream, {
 							type: "conversation.title.update",
 							eventId,
 							conversationId: conversationId,
 							title: parsedTitle.title,
-						};
-						ws.send(JSON.stringify(titleMessage));
+						});
 					} else {
 						console.warn(
 							`Generated empty title for conversation ${conversationId}`,
@@ -326,19 +1193,26 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 					);
 				}
 			}
+			// Extraction is another model call; running it in the background
+			// lets the stream and its generation slot go as soon as the reply
+			// is done.
+			if (response) {
+				this.ctx.waitUntil(
+					this.extractMemories(conversationId, storedContent.content, response),
+				);
+			}
 		} catch (error) {
 			console.error(
 				`Error in handleChat for conversation ${conversationId}:`,
 				error,
 			);
 			try {
-				ws.send(
-					JSON.stringify({
-						type: "error",
-						eventId,
-						message: "An internal error occurred",
-					}),
-				);
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "internal",
+					message: "An internal error occurred",
+				});
 			} catch (wsError) {
 				console.error(
 					`Failed to send error message via WebSocket for conversation ${conversationId}:`,
@@ -349,132 +1223,87 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 	}
 
 	private async handleRegenerate(
-		ws: WebSocket,
+		chatStream: ChatStream,
 		parsedMessage: WebSocketChatRegenerateMessage,
+		parameters: ResolvedGenerationParameters,
 	) {
 		const { eventId, conversationId } = parsedMessage;
-		this.abortController = new AbortController();
 
 		try {
-			const allMessages = await this.db.query.messages.findMany({
-				columns: {
-					id: true,
-					role: true,
-					content: true,
-				},
+			const conversation = await this.db.query.conversations.findFirst({
 				where(fields, operators) {
-					return operators.eq(fields.conversation_id, conversationId);
-				},
-				orderBy(fields, operators) {
-					return operators.asc(fields.created_at);
+					return operators.eq(fields.id, conversationId);
 				},
 			});
+			if (!conversation) {
+				throw new Error(`Conversation not found: ${conversationId}`);
+			}
+			const activePath = getPath(
+				await this.getConversationMessages(conversationId),
+				conversation.active_message_id,
+			);
 
+			// The new answer becomes a sibling branch of everything after the
+			// last user message, so the previous answer stays reachable.
+			let lastUserIndex = activePath.length - 1;
+			while (lastUserIndex >= 0 && activePath[lastUserIndex].role !== "user") {
+				lastUserIndex--;
+			}
 			if (
-				allMessages.length < 2 ||
-				allMessages[allMessages.length - 1].role !== "assistant"
+				lastUserIndex < 0 ||
+				activePath[activePath.length - 1].role !== "assistant"
 			) {
 				console.warn(
 					`Cannot regenerate for conversation ${conversationId}: No preceding assistant message found or history too short.`,
 				);
-				ws.send(
-					JSON.stringify({
-						type: "error",
-						eventId,
-						message: "Cannot regenerate the last message.",
-					}),
-				);
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "failed_precondition",
+					message: "Cannot regenerate the last message.",
+				});
 				return;
 			}
 
-			const lastAssistantMessage = allMessages.pop()!;
-			const lastAssistantMessageId = lastAssistantMessage.id;
-			const messagesForRegeneration = allMessages.map(({ role, content }) => ({
-				role: role as "user" | "assistant",
-				content,
-			}));
-
-			const stream = await this.workersAI.chat.completions.create(
-				{
-					model: parsedMessage.model,
-					messages: messagesForRegeneration,
-					stream: true,
-					max_completion_tokens: 10000,
-					reasoning_effort: "low",
-					store: true,
-				},
-				{
-					signal: this.abortController.signal,
-					headers: {
-						"cf-aig-skip-cache": "true",
-					},
-				},
+			const lastUserMessage = activePath[lastUserIndex];
+			const { history, citations } = await this.buildPrompt(
+				conversation,
+				parameters,
+				activePath.slice(0, lastUserIndex + 1),
 			);
-
-			let newResponse = "";
-			try {
-				for await (const chunk of stream) {
-					let chunkContent = chunk.choices?.[0]?.delta?.content;
-					if (chunkContent) {
-						newResponse += chunkContent;
-						const streamMessage: WebSocketStreamMessage = {
-							type: "chat.stream.response",
-							eventId,
-							conversationId,
-							content: chunkContent,
-						};
-						ws.send(JSON.stringify(streamMessage));
-					}
-				}
-			} catch (error: unknown) {
-				if (error instanceof Error && error.name === "AbortError") {
-					console.log(
-						`Regeneration stream aborted for conversation ${conversationId}`,
-					);
-					return;
-				} else {
-					console.error(
-						`Error processing regeneration stream for conversation ${conversationId}:`,
-						error,
-					);
-					throw error;
-				}
-			}
-
-			const doneMessage: WebSocketStreamDoneMessage = {
-				type: "chat.stream.done",
+			const { messageIds } = await this.generate(chatStream, {
 				eventId,
 				conversationId,
-				function_call: null,
-			};
-			ws.send(JSON.stringify(doneMessage));
+				parameters,
+				tools: parsedMessage.tools ?? [],
+				history,
+				citations,
+				parentId: lastUserMessage.id,
+				skipCache: true,
+			});
 
+			// A cancelled answer is kept like in handleChat, marked by its status
+			// so it can be continued.
 			await this.db
-				.update(schema.messages)
+				.update(schema.conversations)
 				.set({
-					content: newResponse,
+					active_message_id: messageIds[messageIds.length - 1],
+					updated_at: new Date().toISOString(),
 				})
-				.where(eq(schema.messages.id, lastAssistantMessageId));
-
-			await this.db
-				.update(schema.conversations)
-				.set({ updated_at: new Date().toISOString() })
 				.where(eq(schema.conversations.id, conversationId));
+			await this.broadcastConversation(conversationId);
 		} catch (error) {
 			console.error(
 				`Error in handleRegenerate for conversation ${conversationId}:`,
 				error,
 			);
 			try {
-				if (ws.readyState === WebSocket.OPEN) {
-					ws.send(
-						JSON.stringify({
-							type: "error",
-							eventId,
-							message: "An internal error occurred during regeneration.",
-						}),
-					);
-				}
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "internal",
+					message: "An internal error occurred during regeneration.",
+				});
 			} catch (wsError) {
 				console.error(
 					`Failed to send error message via WebSocket for regeneration on conversation ${conversationId}:`,
@@ -484,34 +1313,852 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 		}
 	}
 
-	async listConversations() {
+	/**
+	 * Appends to an incomplete assistant message. The model gets the partial
+	 * answer back along with an instruction to pick up where it stopped.
+	 */
+	private async handleContinue(
+		chatStream: ChatStream,
+		parsedMessage: WebSocketChatContinueMessage,
+		parameters: ResolvedGenerationParameters,
+	) {
+		const { eventId, conversationId, messageId } = parsedMessage;
+		try {
+			const conversation = await this.db.query.conversations.findFirst({
+				where(fields, operators) {
+					return operators.eq(fields.id, conversationId);
+				},
+			});
+			if (!conversation) {
+				throw new Error(`Conversation not found: ${conversationId}`);
+			}
+			const messages = await this.getConversationMessages(conversationId);
+			const message = messages.find(({ id }) => id === messageId);
+			if (
+				!message ||
+				message.role !== "assistant" ||
+				message.status === null ||
+				message.status === "complete"
+			) {
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "failed_precondition",
+					message: "Only incomplete assistant messages can be continued.",
+				});
+				return;
+			}
+			const path = getPath(messages, message.id);
+			const { history, citations } = await this.buildPrompt(
+				conversation,
+				parameters,
+				path.slice(0, -1),
+			);
+			history.push(
+				{ role: "assistant", content: message.content },
+				{ role: "user", content: getContinuationPrompt() },
+			);
+			const result = await this.streamCompletion(chatStream, {
+				eventId,
+				conversationId,
+				parameters,
+				history,
+				skipCache: true,
+			});
+			// Usage and latency are totals over the original request and its
+			// continuations.
+			const [updatedMessage] = await this.db
+				.update(schema.messages)
+				.set({
+					content: message.content + result.content,
+					model: parameters.model,
+					prompt_tokens: (message.prompt_tokens ?? 0) + result.promptTokens,
+					completion_tokens:
+						(message.completion_tokens ?? 0) + result.completionTokens,
+					time_to_first_token_ms:
+						message.time_to_first_token_ms ?? result.timeToFirstTokenMs,
+					latency_ms: (message.latency_ms ?? 0) + result.latencyMs,
+					finish_reason: result.finishReason,
+					status: result.status,
+					updated_at: new Date().toISOString(),
+				})
+				.where(eq(schema.messages.id, message.id))
+				.returning();
+			this.broadcast({
+				type: "message.updated",
+				conversationId,
+				message: updatedMessage,
+			});
+			if (result.failure) {
+				throw result.failure.error;
+			}
+			// The active path stays as it is when it already runs through the
+			// message; otherwise it moves to the message's branch, keeping any
+			// turns that follow it.
+			const activePath = getPath(messages, conversation.active_message_id);
+			if (!activePath.some(({ id }) => id === message.id)) {
+				await this.setActiveMessage(
+					conversationId,
+					getLatestLeaf(messages, message.id),
+				);
+			}
+			await this.emit(chatStream, {
+				type: "chat.stream.done",
+				eventId,
+				conversationId,
+				function_call: null,
+				citations,
+				metadata: toGenerationMetadata(updatedMessage),
+			});
+		} catch (error) {
+			console.error(
+				`Error in handleContinue for conversation ${conversationId}:`,
+				error,
+			);
+			try {
+				await this.emit(chatStream, {
+					type: "error",
+					eventId,
+					code: "internal",
+					message: "An internal error occurred while continuing.",
+				});
+			} catch (wsError) {
+				console.error(
+					`Failed to send error message for continuation on conversation ${conversationId}:`,
+					wsError,
+				);
+			}
+		}
+	}
+
+	/**
+	 * The full prompt for answering the last message of `path`: the
+	 * conversation's system prompt, what is remembered about the user, the
+	 * history, and matching document excerpts.
+	 */
+	private async buildPrompt(
+		conversation: typeof schema.conversations.$inferSelect,
+		parameters: ResolvedGenerationParameters,
+		path: Array<typeof schema.messages.$inferSelect>,
+	) {
+		const memories = await this.listMemories();
+		const systemMessages: ChatCompletionMessageParam[] = [];
+		if (conversation.system_prompt) {
+			systemMessages.push({
+				role: "system",
+				content: conversation.system_prompt,
+			});
+		}
+		if (memories.length > 0) {
+			systemMessages.push({
+				role: "system",
+				content: getMemorySystemPrompt(memories.map(({ content }) => content)),
+			});
+		}
+		const lastMessage = path[path.length - 1];
+		const { contextMessage, citations } = lastMessage
+			? await this.getDocumentContext(conversation.id, lastMessage.content)
+			: { contextMessage: null, citations: [] };
+		const fixedMessages = contextMessage
+			? [...systemMessages, contextMessage]
+			: systemMessages;
+		const history = await this.buildHistory(
+			conversation.id,
+			parameters,
+			path,
+			estimateHistoryTokens(fixedMessages),
+		);
+		// Excerpts go right before the message they were retrieved for.
+		return {
+			history: contextMessage
+				? [
+						...systemMessages,
+						...history.slice(0, -1),
+						contextMessage,
+						...history.slice(-1),
+					]
+				: [...systemMessages, ...history],
+			citations,
+		};
+	}
+
+	/**
+	 * Turns a message path into the prompt for the model. When the path is over
+	 * the model's budget, less the `reservedTokens` the rest of the prompt
+	 * takes, older turns are folded into a stored running summary that is sent
+	 * in their place, ahead of the most recent turns.
+	 */
+	private async buildHistory(
+		conversationId: string,
+		{ contextWindow, maxCompletionTokens }: ResolvedGenerationParameters,
+		path: Array<typeof schema.messages.$inferSelect>,
+		reservedTokens: number,
+	) {
+		const attachmentIds = path.flatMap(({ content_parts }) =>
+			getAttachmentIds(content_parts),
+		);
+		const attachments = new Map(
+			attachmentIds.length > 0
+				? (
+						await this.db.query.attachments.findMany({
+							where(fields, operators) {
+								return operators.inArray(fields.id, attachmentIds);
+							},
+						})
+					).map((attachment) => [attachment.id, attachment])
+				: [],
+		);
+		const history = path.map((message) =>
+			toChatCompletionMessage(message, attachments),
+		);
+		const budget =
+			getHistoryBudget(contextWindow, maxCompletionTokens) - reservedTokens;
+		if (estimateHistoryTokens(history) <= budget) {
+			return history;
+		}
+
+		const pathIndex = new Map(path.map(({ id }, index) => [id, index]));
+		const summaries = await this.db.query.summaries.findMany({
+			where(fields, operators) {
+				return operators.eq(fields.conversation_id, conversationId);
+			},
+		});
+		let summarizedUntil = -1;
+		let previousSummary: string | null = null;
+		for (const summary of summaries) {
+			const index = pathIndex.get(summary.message_id);
+			if (index !== undefined && index > summarizedUntil) {
+				summarizedUntil = index;
+				previousSummary = summary.content;
+			}
+		}
+		if (previousSummary !== null) {
+			const summarizedHistory = [
+				toSummaryMessage(previousSummary),
+				...history.slice(summarizedUntil + 1),
+			];
+			if (estimateHistoryTokens(summarizedHistory) <= budget) {
+				return summarizedHistory;
+			}
+		}
+
+		const recentStart = findRecentHistoryStart(history, budget);
+		if (recentStart <= summarizedUntil + 1) {
+			// Nothing new to fold: the recent turns alone are over budget.
+			return previousSummary === null
+				? history
+				: [
+						toSummaryMessage(previousSummary),
+						...history.slice(summarizedUntil + 1),
+					];
+		}
+		try {
+			const summary = await this.summarize(
+				previousSummary,
+				history.slice(summarizedUntil + 1, recentStart),
+			);
+			await this.db.insert(schema.summaries).values({
+				conversation_id: conversationId,
+				message_id: path[recentStart - 1].id,
+				content: summary,
+			});
+			return [toSummaryMessage(summary), ...history.slice(recentStart)];
+		} catch (error) {
+			console.error(
+				`Failed to summarize history for conversation ${conversationId}:`,
+				error,
+			);
+			return history.slice(recentStart);
+		}
+	}
+
+	/**
+	 * Quotes the document chunks most similar to the last message just before
+	 * it, and returns which ones were used.
+	 */
+	/** Document excerpts relevant to `query`, as a message to send with it. */
+	private async getDocumentContext(
+		conversationId: string,
+		query: string,
+	): Promise<{
+		contextMessage: ChatCompletionMessageParam | null;
+		citations: WebSocketCitation[];
+	}> {
+		let chunks: RetrievedChunk[];
+		try {
+			chunks = await this.searchDocuments(conversationId, query);
+		} catch (error) {
+			console.error(
+				`Failed to search documents for conversation ${conversationId}:`,
+				error,
+			);
+			return { contextMessage: null, citations: [] };
+		}
+		if (chunks.length === 0) {
+			return { contextMessage: null, citations: [] };
+		}
+		return {
+			contextMessage: toDocumentContextMessage(chunks),
+			citations: chunks.map((chunk, index) => ({
+				index: index + 1,
+				documentId: chunk.documentId,
+				documentName: chunk.documentName,
+				chunkId: chunk.chunkId,
+				chunkIndex: chunk.chunkIndex,
+				score: chunk.score,
+			})),
+		};
+	}
+
+	private async searchDocuments(
+		conversationId: string,
+		query: string,
+	): Promise<RetrievedChunk[]> {
+		const documents = await this.listDocuments(conversationId);
+		if (documents.length === 0 || !query.trim()) {
+			return [];
+		}
+		const documentNames = new Map(documents.map(({ id, name }) => [id, name]));
+		const [queryEmbedding] = await this.embed([query]);
+		let retrieved: RetrievedChunk[] = [];
+		let after: string | null = null;
+		while (true) {
+			const cursor = after;
+			const page: Array<typeof schema.documentChunks.$inferSelect> =
+				await this.db.query.documentChunks.findMany({
+					where(fields, operators) {
+						return operators.and(
+							operators.eq(fields.conversation_id, conversationId),
+							cursor ? operators.gt(fields.id, cursor) : undefined,
+						);
+					},
+					orderBy(fields, operators) {
+						return operators.asc(fields.id);
+					},
+					limit: RETRIEVAL_SCAN_PAGE_SIZE,
+				});
+			const scored = page
+				.map((chunk) => ({
+					chunkId: chunk.id,
+					documentId: chunk.document_id,
+					documentName: documentNames.get(chunk.document_id) ?? "",
+					chunkIndex: chunk.chunk_index,
+					content: chunk.content,
+					score: cosineSimilarity(queryEmbedding, chunk.embedding),
+				}))
+				.filter(({ score }) => score >= MIN_RETRIEVAL_SIMILARITY);
+			retrieved = [...retrieved, ...scored]
+				.sort((a, b) => b.score - a.score)
+				.slice(0, RETRIEVAL_TOP_K);
+			if (page.length < RETRIEVAL_SCAN_PAGE_SIZE) {
+				return retrieved;
+			}
+			after = page[page.length - 1].id;
+		}
+	}
+
+	/**
+	 * The embedding model reports no usage, so the input is metered as prompt
+	 * tokens by the same estimate used for chat.
+	 */
+	private async embed(texts: string[]) {
+		const embeddings: number[][] = [];
+		for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+			const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+			const { data } = await this.env.AI.run(EMBEDDING_MODEL, {
+				text: batch,
+			});
+			embeddings.push(...data);
+			await this.recordUsage({
+				promptTokens: estimateHistoryTokens(
+					batch.map((text) => ({ role: "user", content: text })),
+				),
+			});
+		}
+		return embeddings;
+	}
+
+	/** Stores durable facts about the user learned from one exchange. */
+	private async extractMemories(
+		conversationId: string,
+		userContent: string,
+		response: string,
+	) {
+		try {
+			const existing = await this.listMemories();
+			const completion = await this.workersAI.chat.completions.create({
+				model: "@cf/meta/llama-4-scout-17b-16e-instruct",
+				messages: [
+					{
+						role: "system",
+						content: getMemoryExtractionPrompt(
+							existing.map(({ content }) => content),
+						),
+					},
+					{ role: "user", content: userContent },
+					{ role: "assistant", content: response },
+				],
+				response_format: zodResponseFormat(MemoryExtraction, "user_memories"),
+				max_completion_tokens: 300,
+			});
+			await this.recordCompletionUsage(completion.usage);
+			const { memories } = MemoryExtraction.parse(
+				JSON.parse(completion.choices[0].message.content || "{}"),
+			);
+			const known = new Set(
+				existing.map(({ content }) => content.toLowerCase()),
+			);
+			for (const memory of memories) {
+				const content = memory.trim();
+				if (content && !known.has(content.toLowerCase())) {
+					known.add(content.toLowerCase());
+					await this.addMemory(content, conversationId);
+				}
+			}
+		} catch (error) {
+			console.error(
+				`Failed to extract memories from conversation ${conversationId}:`,
+				error,
+			);
+		}
+	}
+
+	private async summarize(
+		previousSummary: string | null,
+		messages: Array<ChatCompletionMessageParam>,
+	) {
+		let summary = previousSummary;
+		for (const batch of batchByTokens(messages, SUMMARY_BATCH_TOKENS)) {
+			const completion = await this.workersAI.chat.completions.create({
+				model: "@cf/meta/llama-4-scout-17b-16e-instruct",
+				messages: [
+					{
+						role: "system",
+						content: getConversationSummaryPrompt(summary),
+					},
+					{
+						role: "user",
+						content: formatTranscript(batch),
+					},
+				],
+				response_format: zodResponseFormat(
+					ConversationSummaryExtraction,
+					"conversation_summary",
+				),
+				max_completion_tokens: 1000,
+			});
+			await this.recordCompletionUsage(completion.usage);
+			const summaryResponse = completion.choices[0].message;
+			summary = ConversationSummaryExtraction.parse(
+				JSON.parse(summaryResponse.content || "{}"),
+			).summary;
+		}
+		return summary ?? "";
+	}
+
+	/**
+	 * Streams a reply for `history`, running server-side tool calls and feeding
+	 * their results back to the model until it produces a final answer. Every
+	 * assistant turn and tool result is stored; calls to tools the server does
+	 * not know are handed to the client through `chat.stream.done`.
+	 */
+	private async generate(
+		chatStream: ChatStream,
+		{
+			eventId,
+			conversationId,
+			parameters,
+			tools,
+			history,
+			citations = [],
+			parentId,
+			skipCache = false,
+		}: {
+			eventId: string;
+			conversationId: string;
+			parameters: ResolvedGenerationParameters;
+			tools: Array<ChatCompletionTool>;
+			history: Array<ChatCompletionMessageParam>;
+			citations?: WebSocketCitation[];
+			parentId: string;
+			skipCache?: boolean;
+		},
+	) {
+		const messageIds: string[] = [];
+		let response = "";
+		let aborted = false;
+		let functionCall: WebSocketStreamDoneMessage["function_call"] = null;
+		let metadata: WebSocketGenerationMetadata;
+		// Models without function calling get no server tools. Requests with
+		// client tools were already turned away for them.
+		const functionCalling = await findModel(
+			this.env,
+			parameters.model,
+			"text-generation",
+		)
+			.then((info) => info?.functionCalling ?? true)
+			.catch(() => true);
+		// Ends at the latest on round MAX_TOOL_ROUNDS, which withholds tools so
+		// the model has to answer.
+		for (let round = 0; ; round++) {
+			const availableTools =
+				round < MAX_TOOL_ROUNDS && functionCalling
+					? [...serverTools.definitions(), ...tools]
+					: [];
+			const result = await this.streamCompletion(chatStream, {
+				eventId,
+				conversationId,
+				parameters,
+				history,
+				tools: availableTools,
+				skipCache,
+			});
+			response = result.content;
+			aborted = result.aborted;
+			const clientToolCall = result.toolCalls.find(
+				(toolCall) => !serverTools.has(toolCall.function.name),
+			);
+			if (clientToolCall) {
+				functionCall = {
+					name: clientToolCall.function.name,
+					arguments: clientToolCall.function.arguments,
+				};
+			}
+			const toolCalls =
+				aborted || result.failure || clientToolCall ? [] : result.toolCalls;
+			const [assistantMessage] = await this.db
+				.insert(schema.messages)
+				.values({
+					user_id: "1",
+					conversation_id: conversationId,
+					parent_id: messageIds[messageIds.length - 1] ?? parentId,
+					role: "assistant",
+					content: result.content,
+					tool_calls: toolCalls.length > 0 ? toolCalls : null,
+					model: parameters.model,
+					prompt_tokens: result.promptTokens,
+					completion_tokens: result.completionTokens,
+					time_to_first_token_ms: result.timeToFirstTokenMs,
+					latency_ms: result.latencyMs,
+					finish_reason: result.finishReason,
+					status: result.status,
+				})
+				.returning();
+			messageIds.push(assistantMessage.id);
+			this.broadcast({
+				type: "message.created",
+				conversationId,
+				message: assistantMessage,
+			});
+			// The partial answer is kept; the caller reports the failure.
+			if (result.failure) {
+				throw result.failure.error;
+			}
+			metadata = toGenerationMetadata(assistantMessage);
+			if (toolCalls.length === 0) {
+				break;
+			}
+			history.push({
+				role: "assistant",
+				content: result.content,
+				tool_calls: toolCalls,
+			});
+			for (const toolCall of toolCalls) {
+				const toolCallMessage: WebSocketToolCallMessage = {
+					type: "chat.tool.call",
+					eventId,
+					conversationId,
+					toolCallId: toolCall.id,
+					name: toolCall.function.name,
+					arguments: toolCall.function.arguments,
+				};
+				await this.emit(chatStream, toolCallMessage);
+				const output = await serverTools.execute(toolCall, {
+					env: this.env,
+					conversationId,
+				});
+				const [toolMessage] = await this.db
+					.insert(schema.messages)
+					.values({
+						user_id: "1",
+						conversation_id: conversationId,
+						parent_id: messageIds[messageIds.length - 1],
+						role: "tool",
+						content: output,
+						tool_call_id: toolCall.id,
+					})
+					.returning();
+				messageIds.push(toolMessage.id);
+				this.broadcast({
+					type: "message.created",
+					conversationId,
+					message: toolMessage,
+				});
+				history.push({
+					role: "tool",
+					tool_call_id: toolCall.id,
+					content: output,
+				});
+				const toolResultMessage: WebSocketToolResultMessage = {
+					type: "chat.tool.result",
+					eventId,
+					conversationId,
+					toolCallId: toolCall.id,
+					name: toolCall.function.name,
+					result: output,
+				};
+				await this.emit(chatStream, toolResultMessage);
+			}
+		}
+		const doneMessage: WebSocketStreamDoneMessage = {
+			type: "chat.stream.done",
+			eventId,
+			conversationId,
+			function_call: functionCall,
+			citations,
+			metadata,
+		};
+		await this.emit(chatStream, doneMessage);
+		return { response, aborted, messageIds };
+	}
+
+	/** Streams one completion to the client, recording and timing its usage. */
+	private async streamCompletion(
+		chatStream: ChatStream,
+		{
+			eventId,
+			conversationId,
+			parameters,
+			history,
+			tools = [],
+			skipCache = false,
+		}: {
+			eventId: string;
+			conversationId: string;
+			parameters: ResolvedGenerationParameters;
+			history: Array<ChatCompletionMessageParam>;
+			tools?: Array<ChatCompletionTool>;
+			skipCache?: boolean;
+		},
+	) {
+		const requestedAt = Date.now();
+		const stream = await this.workersAI.chat.completions.create(
+			{
+				model: parameters.model,
+				messages: history,
+				...(tools.length > 0 ? { tools } : {}),
+				temperature: parameters.temperature,
+				top_p: parameters.topP,
+				reasoning_effort: parameters.reasoningEffort,
+				stream: true,
+				stream_options: { include_usage: true },
+				store: true,
+				max_completion_tokens: parameters.maxCompletionTokens,
+			},
+			{
+				signal: chatStream.abortController.signal,
+				headers: skipCache ? { "cf-aig-skip-cache": "true" } : undefined,
+			},
+		);
+		const result = await this.readStream(chatStream, stream, {
+			eventId,
+			conversationId,
+		});
+		// Cancelled streams never get to the usage chunk, so estimate them.
+		const promptTokens =
+			result.usage?.prompt_tokens ?? estimateHistoryTokens(history);
+		const completionTokens =
+			result.usage?.completion_tokens ??
+			estimateTokens({ role: "assistant", content: result.content });
+		await this.recordUsage({ promptTokens, completionTokens });
+		return {
+			...result,
+			promptTokens,
+			completionTokens,
+			timeToFirstTokenMs:
+				result.firstTokenAt === null ? null : result.firstTokenAt - requestedAt,
+			latencyMs: Date.now() - requestedAt,
+			status: getMessageStatus({
+				aborted: result.aborted,
+				failed: result.failure !== null,
+				finishReason: result.finishReason,
+			}),
+		};
+	}
+
+	private async readStream(
+		chatStream: ChatStream,
+		stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+		{ eventId, conversationId }: { eventId: string; conversationId: string },
+	) {
+		let content = "";
+		let aborted = false;
+		let failure: { error: unknown } | null = null;
+		let usage: OpenAI.CompletionUsage | undefined;
+		let firstTokenAt: number | null = null;
+		let finishReason: string | null = null;
+		const toolCallMap: ToolCallDeltas = new Map();
+		try {
+			for await (const chunk of stream) {
+				usage = chunk.usage ?? usage;
+				finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+				const delta = chunk.choices[0]?.delta;
+				if (!delta) {
+					continue;
+				}
+				if (delta.content || delta.tool_calls?.length) {
+					firstTokenAt ??= Date.now();
+				}
+				const chunkContent = delta.content;
+				if (chunkContent) {
+					content += chunkContent;
+					const streamMessage: WebSocketStreamMessage = {
+						type: "chat.stream.response",
+						eventId,
+						conversationId,
+						content: chunkContent,
+					};
+					await this.emit(chatStream, streamMessage);
+				}
+				addToolCallDeltas(toolCallMap, delta.tool_calls ?? []);
+			}
+		} catch (error: unknown) {
+			if (error instanceof Error && error.name === "AbortError") {
+				console.log(`Stream aborted for conversation ${conversationId}`);
+				aborted = true;
+			} else {
+				console.error(
+					`Error processing stream for conversation ${conversationId}:`,
+					error,
+				);
+				failure = { error };
+			}
+		}
+		return {
+			content,
+			toolCalls: toToolCalls(toolCallMap),
+			aborted,
+			failure,
+			usage,
+			firstTokenAt,
+			finishReason,
+		};
+	}
+
+	listGenerations() {
+		return [...this.streams.values()].map(
+			({ eventId, conversationId, startedAt }) => ({
+				eventId,
+				conversationId,
+				startedAt,
+			}),
+		);
+	}
+
+	async listConversations({
+		limit,
+		after,
+	}: {
+		limit: number | null;
+		after: ConversationCursor | null;
+	}) {
 		return await this.db.query.conversations.findMany({
+			where(fields, operators) {
+				// Keyset pagination over the same columns as the ordering, with the
+				// id as a tie-breaker so pages stay stable. Both columns are
+				// nullable, and NULL never compares, so they are coalesced the way
+				// the page token encodes them.
+				return after
+					? operators.sql`(coalesce(${fields.pinned}, 0), coalesce(${fields.updated_at}, ''), ${fields.id}) < (${after.pinned ? 1 : 0}, ${after.updatedAt}, ${after.id})`
+					: undefined;
+			},
 			orderBy(fields, operators) {
 				return [
-					operators.desc(fields.pinned),
-					operators.desc(fields.updated_at),
+					operators.desc(operators.sql`coalesce(${fields.pinned}, 0)`),
+					operators.desc(operators.sql`coalesce(${fields.updated_at}, '')`),
+					operators.desc(fields.id),
 				];
 			},
+			limit: limit ?? undefined,
 		});
 	}
 
-	async createConversation() {
+	/**
+	 * Starts a conversation, optionally from a persona whose prompt, model and
+	 * parameters it copies. `systemPrompt` takes precedence over the persona's.
+	 * Returns null for an unknown persona.
+	 */
+	async createConversation({
+		personaId = null,
+		systemPrompt = null,
+	}: { personaId?: string | null; systemPrompt?: string | null } = {}) {
+		let persona: typeof schema.personas.$inferSelect | undefined;
+		if (personaId) {
+			persona = await this.db.query.personas.findFirst({
+				where(fields, operators) {
+					return operators.eq(fields.id, personaId);
+				},
+			});
+			if (!persona) {
+				return null;
+			}
+		}
 		const [conversation] = await this.db
 			.insert(schema.conversations)
 			.values({
 				user_id: "1",
+				system_prompt: systemPrompt ?? persona?.system_prompt ?? null,
+				persona_id: persona?.id ?? null,
+				model: persona?.model ?? null,
+				generation: persona?.generation ?? null,
 			})
 			.returning();
+		this.broadcast({ type: "conversation.created", conversation });
+		return conversation;
+	}
+
+	/** Returns null if the conversation doesn't exist. */
+	async setConversationSystemPrompt(
+		conversationId: string,
+		systemPrompt: string | null,
+	) {
+		const [conversation] = await this.db
+			.update(schema.conversations)
+			.set({ system_prompt: systemPrompt })
+			.where(eq(schema.conversations.id, conversationId))
+			.returning();
+		if (!conversation) {
+			return null;
+		}
+		this.broadcast({ type: "conversation.updated", conversation });
 		return conversation;
 	}
 
 	async deleteConversation(conversationId: string) {
+		const attachmentIds = (
+			await this.getConversationMessages(conversationId)
+		).flatMap(({ content_parts }) => getAttachmentIds(content_parts));
 		await this.db
 			.delete(schema.conversations)
 			.where(eq(schema.conversations.id, conversationId));
 		await this.db
 			.delete(schema.messages)
 			.where(eq(schema.messages.conversation_id, conversationId));
+		// An upload can be sent in more than one conversation.
+		await this.deleteUnusedAttachments(attachmentIds);
+		await this.db
+			.delete(schema.summaries)
+			.where(eq(schema.summaries.conversation_id, conversationId));
+		await this.db
+			.delete(schema.documents)
+			.where(eq(schema.documents.conversation_id, conversationId));
+		await this.db
+			.delete(schema.documentChunks)
+			.where(eq(schema.documentChunks.conversation_id, conversationId));
+		for (const share of await this.listShares(conversationId)) {
+			await this.revokeShare(share.id);
+		}
+		this.broadcast({ type: "conversation.deleted", conversationId });
 	}
 
 	async renameConversation(conversationId: string, title: string) {
@@ -519,6 +2166,7 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 			.update(schema.conversations)
 			.set({ title })
 			.where(eq(schema.conversations.id, conversationId));
+		await this.broadcastConversation(conversationId);
 	}
 
 	async pinConversation(conversationId: string) {
@@ -526,6 +2174,7 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 			.update(schema.conversations)
 			.set({ pinned: true })
 			.where(eq(schema.conversations.id, conversationId));
+		await this.broadcastConversation(conversationId);
 	}
 
 	async unpinConversation(conversationId: string) {
@@ -533,14 +2182,517 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 			.update(schema.conversations)
 			.set({ pinned: false })
 			.where(eq(schema.conversations.id, conversationId));
+		await this.broadcastConversation(conversationId);
 	}
 
+	/** Returns null if the conversation doesn't exist. */
+	async setConversationParameters(
+		conversationId: string,
+		generation: schema.GenerationParameters,
+	) {
+		const [conversation] = await this.db
+			.update(schema.conversations)
+			.set({ generation })
+			.where(eq(schema.conversations.id, conversationId))
+			.returning();
+		if (!conversation) {
+			return null;
+		}
+		this.broadcast({ type: "conversation.updated", conversation });
+		return conversation;
+	}
+
+	/**
+	 * Pages backwards from the newest message: each page ends right before the
+	 * `before` message, or at the newest one. Returns null for an unknown
+	 * `before` id, e.g. after switching to another branch.
+	 */
 	async listMessages({
 		conversationId,
+		includeAllBranches = false,
+		limit,
+		before,
 	}: {
 		conversationId: string;
+		includeAllBranches?: boolean;
+		limit: number | null;
+		before: string | null;
 	}) {
-		return await this.db.query.messages.findMany({
+		const conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, conversationId);
+			},
+		});
+		if (!conversation) {
+			return { messages: [], hasMore: false };
+		}
+		const messages = await this.getConversationMessages(conversationId);
+		const listed = includeAllBranches
+			? messages
+			: getPath(messages, conversation.active_message_id);
+		const end = before
+			? listed.findIndex(({ id }) => id === before)
+			: listed.length;
+		if (end < 0) {
+			return null;
+		}
+		const start = limit === null ? 0 : Math.max(0, end - limit);
+		return {
+			messages: withVersions(messages, listed.slice(start, end)),
+			hasMore: start > 0,
+		};
+	}
+
+	async listMessageVersions({
+		conversationId,
+		messageId,
+	}: {
+		conversationId: string;
+		messageId: string;
+	}) {
+		const conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, conversationId);
+			},
+		});
+		if (!conversation) {
+			return null;
+		}
+		const messages = await this.getConversationMessages(conversationId);
+		const versions = getSiblings(messages, messageId);
+		if (versions.length === 0) {
+			return null;
+		}
+		const activeIds = new Set(
+			getPath(messages, conversation.active_message_id).map(({ id }) => id),
+		);
+		return {
+			versions: withVersions(messages, versions),
+			activeIndex: versions.findIndex(({ id }) => activeIds.has(id)),
+		};
+	}
+
+	async switchMessageVersion({
+		conversationId,
+		messageId,
+	}: {
+		conversationId: string;
+		messageId: string;
+	}) {
+		const messages = await this.getConversationMessages(conversationId);
+		if (!messages.some(({ id }) => id === messageId)) {
+			return null;
+		}
+		const leafId = getLatestLeaf(messages, messageId);
+		await this.setActiveMessage(conversationId, leafId);
+		return withVersions(messages, getPath(messages, leafId));
+	}
+
+	async searchMessages({
+		query,
+		limit,
+		offset,
+	}: {
+		query: string;
+		limit: number;
+		offset: number;
+	}) {
+		const ftsQuery = toFtsQuery(query);
+		if (!ftsQuery) {
+			return [];
+		}
+		const markers = createSnippetMarkers();
+		const results = await this.db.all<{
+			message_id: string;
+			conversation_id: string;
+			conversation_title: string | null;
+			role: string;
+			snippet: string;
+			created_at: string | null;
+		}>(sql`
+			SELECT
+				messages.id AS message_id,
+				messages.conversation_id AS conversation_id,
+				conversations.title AS conversation_title,
+				messages.role AS role,
+				snippet(messages_fts, 0, ${markers.start}, ${markers.end}, '…', 16) AS snippet,
+				messages.created_at AS created_at
+			FROM messages_fts
+			JOIN messages ON messages.search_id = messages_fts.rowid
+			JOIN conversations ON conversations.id = messages.conversation_id
+			WHERE messages_fts MATCH ${ftsQuery}
+			ORDER BY rank
+			LIMIT ${limit} OFFSET ${offset}
+		`);
+		return results.map((result) => ({
+			...result,
+			snippet: renderSnippet(result.snippet, markers),
+		}));
+	}
+
+	/** Every conversation, or just `conversationId`, with all its branches. */
+	async exportConversations(
+		conversationId: string | null,
+	): Promise<ExportedConversation[]> {
+		const conversations = await this.db.query.conversations.findMany({
+			where(fields, operators) {
+				return conversationId
+					? operators.eq(fields.id, conversationId)
+					: undefined;
+			},
+			orderBy(fields, operators) {
+				return operators.asc(fields.created_at);
+			},
+		});
+		const exported: ExportedConversation[] = [];
+		for (const conversation of conversations) {
+			const messages = await this.getConversationMessages(conversation.id);
+			const attachmentIds = messages.flatMap(({ content_parts }) =>
+				getAttachmentIds(content_parts),
+			);
+			const attachments =
+				attachmentIds.length > 0
+					? await this.db.query.attachments.findMany({
+							where(fields, operators) {
+								return operators.inArray(fields.id, attachmentIds);
+							},
+						})
+					: [];
+			exported.push({
+				id: conversation.id,
+				title: conversation.title,
+				system_prompt: conversation.system_prompt,
+				persona_id: conversation.persona_id,
+				model: conversation.model,
+				generation: conversation.generation,
+				pinned: conversation.pinned ?? false,
+				created_at: conversation.created_at,
+				updated_at: conversation.updated_at,
+				active_message_id: conversation.active_message_id,
+				messages: messages.map((message) => ({
+					id: message.id,
+					parent_id: message.parent_id,
+					role: message.role,
+					content: message.content,
+					tool_calls: message.tool_calls,
+					tool_call_id: message.tool_call_id,
+					content_parts: message.content_parts,
+					model: message.model,
+					prompt_tokens: message.prompt_tokens,
+					completion_tokens: message.completion_tokens,
+					time_to_first_token_ms: message.time_to_first_token_ms,
+					latency_ms: message.latency_ms,
+					finish_reason: message.finish_reason,
+					status: message.status,
+					created_at: message.created_at,
+				})),
+				attachments: attachments.map((attachment) => ({
+					id: attachment.id,
+					mime_type: attachment.mime_type,
+					data: attachment.data,
+					created_at: attachment.created_at,
+				})),
+			});
+		}
+		return exported;
+	}
+
+	/**
+	 * Stores imported conversations under new conversation, message and
+	 * attachment ids. A persona id is dropped unless that persona is here.
+	 */
+	async importConversations(conversations: ExportedConversation[]) {
+		const personaIds = new Set(
+			(
+				await this.db.select({ id: schema.personas.id }).from(schema.personas)
+			).map(({ id }) => id),
+		);
+		const imported: Array<typeof schema.conversations.$inferSelect> = [];
+		for (const conversation of conversations) {
+			const messageIds = new Map(
+				conversation.messages.map(({ id }) => [id, crypto.randomUUID()]),
+			);
+			const attachmentIds = new Map<string, string>();
+			for (const attachment of conversation.attachments) {
+				const [created] = await this.db
+					.insert(schema.attachments)
+					.values({
+						mime_type: attachment.mime_type,
+						size: getBase64Size(attachment.data),
+						data: attachment.data,
+						created_at: attachment.created_at ?? undefined,
+					})
+					.returning({ id: schema.attachments.id });
+				attachmentIds.set(attachment.id, created.id);
+			}
+			const lastMessage =
+				conversation.messages[conversation.messages.length - 1];
+			const activeMessageId =
+				(conversation.active_message_id &&
+					messageIds.get(conversation.active_message_id)) ||
+				(lastMessage ? messageIds.get(lastMessage.id) : undefined);
+			const [created] = await this.db
+				.insert(schema.conversations)
+				.values({
+					user_id: "1",
+					title: conversation.title,
+					system_prompt: conversation.system_prompt,
+					persona_id:
+						conversation.persona_id && personaIds.has(conversation.persona_id)
+							? conversation.persona_id
+							: null,
+					model: conversation.model,
+					generation: conversation.generation,
+					pinned: conversation.pinned,
+					active_message_id: activeMessageId ?? null,
+					created_at: conversation.created_at ?? undefined,
+					updated_at: conversation.updated_at ?? undefined,
+				})
+				.returning();
+			// One row per statement: Durable Object SQL caps bound parameters.
+			for (const message of conversation.messages) {
+				await this.db.insert(schema.messages).values({
+					id: messageIds.get(message.id),
+					user_id: "1",
+					conversation_id: created.id,
+					parent_id: message.parent_id
+						? (messageIds.get(message.parent_id) ?? null)
+						: null,
+					role: message.role,
+					content: message.content,
+					tool_calls: message.tool_calls,
+					tool_call_id: message.tool_call_id,
+					content_parts:
+						message.content_parts?.map((part) =>
+							part.type === "image"
+								? {
+										...part,
+										attachment_id:
+											attachmentIds.get(part.attachment_id) ??
+											part.attachment_id,
+									}
+								: part,
+						) ?? null,
+					model: message.model,
+					prompt_tokens: message.prompt_tokens,
+					completion_tokens: message.completion_tokens,
+					time_to_first_token_ms: message.time_to_first_token_ms,
+					latency_ms: message.latency_ms,
+					finish_reason: message.finish_reason,
+					status: message.status,
+					created_at: message.created_at ?? undefined,
+				});
+			}
+			imported.push(created);
+			this.broadcast({ type: "conversation.created", conversation: created });
+		}
+		return imported;
+	}
+
+	async getSettings() {
+		const settings = await this.db.query.settings.findFirst();
+		return {
+			defaultModel: settings?.default_model ?? null,
+			ttsVoice: settings?.tts_voice ?? null,
+			generation: settings?.generation ?? {},
+		};
+	}
+
+	async updateSettings({
+		defaultModel,
+		ttsVoice,
+		generation,
+	}: {
+		defaultModel: string | null;
+		ttsVoice: string | null;
+		generation: schema.GenerationParameters;
+	}) {
+		const values = {
+			default_model: defaultModel,
+			tts_voice: ttsVoice,
+			generation,
+			updated_at: new Date().toISOString(),
+		};
+		await this.db
+			.insert(schema.settings)
+			.values({ id: 1, ...values })
+			.onConflictDoUpdate({ target: schema.settings.id, set: values });
+		return await this.getSettings();
+	}
+
+	async listPersonas() {
+		return await this.db.query.personas.findMany({
+			orderBy(fields, operators) {
+				return operators.asc(fields.name);
+			},
+		});
+	}
+
+	async createPersona(persona: {
+		name: string;
+		systemPrompt: string;
+		model: string | null;
+		generation: schema.GenerationParameters;
+	}) {
+		const [created] = await this.db
+			.insert(schema.personas)
+			.values({
+				name: persona.name,
+				system_prompt: persona.systemPrompt,
+				model: persona.model,
+				generation: persona.generation,
+			})
+			.returning();
+		return created;
+	}
+
+	/** Returns null if the persona doesn't exist. */
+	async updatePersona(
+		personaId: string,
+		persona: {
+			name: string;
+			systemPrompt: string;
+			model: string | null;
+			generation: schema.GenerationParameters;
+		},
+	) {
+		const [updated] = await this.db
+			.update(schema.personas)
+			.set({
+				name: persona.name,
+				system_prompt: persona.systemPrompt,
+				model: persona.model,
+				generation: persona.generation,
+				updated_at: new Date().toISOString(),
+			})
+			.where(eq(schema.personas.id, personaId))
+			.returning();
+		return updated ?? null;
+	}
+
+	async deletePersona(personaId: string) {
+		const [persona] = await this.db
+			.delete(schema.personas)
+			.where(eq(schema.personas.id, personaId))
+			.returning({ id: schema.personas.id });
+		return persona !== undefined;
+	}
+
+	async listMemories() {
+		return await this.db.query.memories.findMany({
+			orderBy(fields, operators) {
+				return [operators.asc(fields.created_at), operators.sql`rowid`];
+			},
+		});
+	}
+
+	/**
+	 * Adds a memory, learned in `conversationId` or, without one, added by the
+	 * user. Returns null when the user's own memories already fill the limit.
+	 */
+	async addMemory(content: string, conversationId: string | null = null) {
+		const existing = await this.listMemories();
+		if (
+			conversationId === null &&
+			existing.filter(({ conversation_id }) => conversation_id === null)
+				.length >= MAX_MEMORIES
+		) {
+			return null;
+		}
+		const [memory] = await this.db
+			.insert(schema.memories)
+			.values({ content, conversation_id: conversationId })
+			.returning();
+		const memories = [...existing, memory];
+		const overflow = memories
+			.filter(({ conversation_id }) => conversation_id !== null)
+			.slice(0, Math.max(0, memories.length - MAX_MEMORIES));
+		if (overflow.length > 0) {
+			await this.db.delete(schema.memories).where(
+				inArray(
+					schema.memories.id,
+					overflow.map(({ id }) => id),
+				),
+			);
+		}
+		return memory;
+	}
+
+	async deleteMemory(memoryId: string) {
+		const [memory] = await this.db
+			.delete(schema.memories)
+			.where(eq(schema.memories.id, memoryId))
+			.returning({ id: schema.memories.id });
+		return memory !== undefined;
+	}
+
+	/**
+	 * Chunks and embeds the text of a document. Returns null if the
+	 * conversation doesn't exist.
+	 */
+	async addDocument({
+		conversationId,
+		name,
+		mimeType,
+		size,
+		text,
+	}: {
+		conversationId: string;
+		name: string;
+		mimeType: string;
+		size: number;
+		text: string;
+	}) {
+		const conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, conversationId);
+			},
+		});
+		if (!conversation) {
+			return null;
+		}
+		const chunks = chunkText(text);
+		if (chunks.length > MAX_DOCUMENT_CHUNKS) {
+			return {
+				success: false as const,
+				error: `Document has ${chunks.length} chunks, at most ${MAX_DOCUMENT_CHUNKS} are allowed`,
+			};
+		}
+		const storedChunks = (await this.listDocuments(conversationId)).reduce(
+			(total, { chunk_count }) => total + chunk_count,
+			0,
+		);
+		if (storedChunks + chunks.length > MAX_CONVERSATION_CHUNKS) {
+			return {
+				success: false as const,
+				error: `A conversation can hold at most ${MAX_CONVERSATION_CHUNKS} document chunks, ${storedChunks} are in use`,
+			};
+		}
+		const embeddings = await this.embed(chunks);
+		const [document] = await this.db
+			.insert(schema.documents)
+			.values({
+				conversation_id: conversationId,
+				name,
+				mime_type: mimeType,
+				size,
+				chunk_count: chunks.length,
+			})
+			.returning();
+		for (const [index, content] of chunks.entries()) {
+			await this.db.insert(schema.documentChunks).values({
+				document_id: document.id,
+				conversation_id: conversationId,
+				chunk_index: index,
+				content,
+				embedding: embeddings[index],
+			});
+		}
+		return { success: true as const, document };
+	}
+
+	async listDocuments(conversationId: string) {
+		return await this.db.query.documents.findMany({
 			where(fields, operators) {
 				return operators.eq(fields.conversation_id, conversationId);
 			},
@@ -549,4 +2701,315 @@ export class WorkersAIDurableObject extends DurableObject<Env> {
 			},
 		});
 	}
+
+	async listDocumentChunks(documentId: string) {
+		return await this.db.query.documentChunks.findMany({
+			where(fields, operators) {
+				return operators.eq(fields.document_id, documentId);
+			},
+			orderBy(fields, operators) {
+				return operators.asc(fields.chunk_index);
+			},
+		});
+	}
+
+	/** Takes over a document with its embedded chunks, under new ids. */
+	async importDocument({
+		conversationId,
+		document,
+		chunks,
+	}: {
+		conversationId: string;
+		document: typeof schema.documents.$inferSelect;
+		chunks: Array<typeof schema.documentChunks.$inferSelect>;
+	}) {
+		const [imported] = await this.db
+			.insert(schema.documents)
+			.values({
+				conversation_id: conversationId,
+				name: document.name,
+				mime_type: document.mime_type,
+				size: document.size,
+				chunk_count: document.chunk_count,
+				created_at: document.created_at ?? undefined,
+			})
+			.returning();
+		for (const chunk of chunks) {
+			await this.db.insert(schema.documentChunks).values({
+				document_id: imported.id,
+				conversation_id: conversationId,
+				chunk_index: chunk.chunk_index,
+				content: chunk.content,
+				embedding: chunk.embedding,
+			});
+		}
+		return imported;
+	}
+
+	async deleteDocument(documentId: string) {
+		const [document] = await this.db
+			.delete(schema.documents)
+			.where(eq(schema.documents.id, documentId))
+			.returning({ id: schema.documents.id });
+		if (!document) {
+			return false;
+		}
+		await this.db
+			.delete(schema.documentChunks)
+			.where(eq(schema.documentChunks.document_id, documentId));
+		return true;
+	}
+
+	async uploadAttachment({
+		mimeType,
+		data,
+	}: {
+		mimeType: string;
+		data: Uint8Array;
+	}) {
+		await this.deleteUnusedAttachments([]);
+		const [attachment] = await this.db
+			.insert(schema.attachments)
+			.values({
+				mime_type: mimeType,
+				size: data.byteLength,
+				data: bytesToBase64(data),
+			})
+			.returning({
+				id: schema.attachments.id,
+				mime_type: schema.attachments.mime_type,
+				size: schema.attachments.size,
+				created_at: schema.attachments.created_at,
+			});
+		return attachment;
+	}
+
+	/**
+	 * Deletes those of `attachmentIds` that no message refers to, along with
+	 * uploads older than UNUSED_ATTACHMENT_TTL_MS that were never sent.
+	 */
+	private async deleteUnusedAttachments(attachmentIds: string[]) {
+		const uploadedBefore = new Date(
+			Date.now() - UNUSED_ATTACHMENT_TTL_MS,
+		).toISOString();
+		await this.db.delete(schema.attachments).where(
+			and(
+				or(
+					inArray(schema.attachments.id, attachmentIds),
+					lt(schema.attachments.created_at, uploadedBefore),
+				),
+				sql`${schema.attachments.id} NOT IN (
+					SELECT json_extract(part.value, '$.attachment_id')
+					FROM ${schema.messages}, json_each(${schema.messages.content_parts}) AS part
+					WHERE json_extract(part.value, '$.type') = 'image'
+				)`,
+			),
+		);
+	}
+
+	async getAttachment(attachmentId: string) {
+		const attachment = await this.db.query.attachments.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, attachmentId);
+			},
+		});
+		return attachment ?? null;
+	}
+
+	/**
+	 * Copies the active branch of a conversation into KV. The snapshot never
+	 * changes afterwards; sharing again creates a new link.
+	 */
+	async shareConversation(conversationId: string) {
+		const conversation = await this.db.query.conversations.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, conversationId);
+			},
+		});
+		if (!conversation) {
+			return null;
+		}
+		const messages = getPath(
+			await this.getConversationMessages(conversationId),
+			conversation.active_message_id,
+		);
+		const share = {
+			id: crypto.randomUUID(),
+			conversation_id: conversationId,
+			created_at: new Date().toISOString(),
+		};
+		const snapshot: ShareSnapshot = {
+			id: share.id,
+			title: conversation.title,
+			sharedAt: share.created_at,
+			messages: messages.flatMap(({ role, content, created_at }) =>
+				(role === "user" || role === "assistant") && content
+					? [{ role, content, createdAt: created_at }]
+					: [],
+			),
+		};
+		await this.env.KV.put(getShareKey(share.id), JSON.stringify(snapshot));
+		await this.db.insert(schema.shares).values(share);
+		return share;
+	}
+
+	async listShares(conversationId: string | null) {
+		return await this.db.query.shares.findMany({
+			where(fields, operators) {
+				return conversationId
+					? operators.eq(fields.conversation_id, conversationId)
+					: undefined;
+			},
+			orderBy(fields, operators) {
+				return operators.desc(fields.created_at);
+			},
+		});
+	}
+
+	async revokeShare(shareId: string) {
+		const share = await this.db.query.shares.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.id, shareId);
+			},
+		});
+		if (!share) {
+			return false;
+		}
+		await this.env.KV.delete(getShareKey(share.id));
+		await this.db.delete(schema.shares).where(eq(schema.shares.id, share.id));
+		return true;
+	}
+
+	/** Takes over share links whose snapshots are already in KV. */
+	async importShares(shares: Array<typeof schema.shares.$inferSelect>) {
+		for (const share of shares) {
+			await this.db.insert(schema.shares).values(share);
+		}
+	}
+
+	/**
+	 * Empties the object once its data has moved elsewhere. Share snapshots
+	 * stay in KV because their links moved along with the conversations.
+	 */
+	async clearConversations() {
+		const conversations = await this.db
+			.select({ id: schema.conversations.id })
+			.from(schema.conversations);
+		await this.db.delete(schema.shares);
+		await this.db.delete(schema.attachments);
+		await this.db.delete(schema.documentChunks);
+		await this.db.delete(schema.documents);
+		await this.db.delete(schema.memories);
+		await this.db.delete(schema.personas);
+		await this.db.delete(schema.settings);
+		await this.db.delete(schema.summaries);
+		await this.db.delete(schema.messages);
+		await this.db.delete(schema.conversations);
+		for (const { id } of conversations) {
+			this.broadcast({ type: "conversation.deleted", conversationId: id });
+		}
+	}
+
+	/**
+	 * Counts a metered request against the user's limits. A request that would
+	 * go over a limit isn't counted; the exceeded limit is returned instead.
+	 */
+	async beginRequest(kind: UsageKind) {
+		const now = new Date();
+		this.recentRequests = this.recentRequests.filter(
+			(startedAt) => startedAt > now.getTime() - 60_000,
+		);
+		const exceeded = findExceededLimit(
+			kind,
+			await this.getUsageTotals(now),
+			this.recentRequests,
+			getUsageLimits(this.env),
+			now,
+		);
+		if (exceeded) {
+			return exceeded;
+		}
+		this.recentRequests.push(now.getTime());
+		await this.recordUsage({ requests: 1 });
+		return null;
+	}
+
+	async recordUsage({
+		requests = 0,
+		promptTokens = 0,
+		completionTokens = 0,
+		audioSeconds = 0,
+	}: Partial<UsageTotals>) {
+		await this.db
+			.insert(schema.usage)
+			.values({
+				day: getUsageDay(new Date()),
+				requests,
+				prompt_tokens: promptTokens,
+				completion_tokens: completionTokens,
+				audio_seconds: audioSeconds,
+			})
+			.onConflictDoUpdate({
+				target: schema.usage.day,
+				set: {
+					requests: sql`${schema.usage.requests} + excluded.requests`,
+					prompt_tokens: sql`${schema.usage.prompt_tokens} + excluded.prompt_tokens`,
+					completion_tokens: sql`${schema.usage.completion_tokens} + excluded.completion_tokens`,
+					audio_seconds: sql`${schema.usage.audio_seconds} + excluded.audio_seconds`,
+				},
+			});
+	}
+
+	async getUsage() {
+		const now = new Date();
+		return {
+			day: getUsageDay(now),
+			...(await this.getUsageTotals(now)),
+			limits: getUsageLimits(this.env),
+		};
+	}
+
+	private async getUsageTotals(now: Date): Promise<UsageTotals> {
+		const totals = await this.db.query.usage.findFirst({
+			where(fields, operators) {
+				return operators.eq(fields.day, getUsageDay(now));
+			},
+		});
+		return {
+			requests: totals?.requests ?? 0,
+			promptTokens: totals?.prompt_tokens ?? 0,
+			completionTokens: totals?.completion_tokens ?? 0,
+			audioSeconds: totals?.audio_seconds ?? 0,
+		};
+	}
+
+	private async recordCompletionUsage(
+		usage: OpenAI.CompletionUsage | undefined,
+	) {
+		if (usage) {
+			await this.recordUsage({
+				promptTokens: usage.prompt_tokens,
+				completionTokens: usage.completion_tokens,
+			});
+		}
+	}
+
+	private async getConversationMessages(conversationId: string) {
+		return await this.db.query.messages.findMany({
+			where(fields, operators) {
+				return operators.eq(fields.conversation_id, conversationId);
+			},
+			orderBy(fields, operators) {
+				return [operators.asc(fields.created_at), operators.sql`rowid`];
+			},
+		});
+	}
+
+	private async setActiveMessage(conversationId: string, messageId: string) {
+		await this.db
+			.update(schema.conversations)
+			.set({ active_message_id: messageId })
+			.where(eq(schema.conversations.id, conversationId));
+		await this.broadcastConversation(conversationId);
+	}
 }
@@ -0,0 +1,327 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { z } from "zod";
+
+import {
+	MAX_ATTACHMENT_BYTES,
+	SUPPORTED_ATTACHMENT_TYPES,
+} from "~/attachments";
+import { getBase64Size } from "~/base64";
+import { toChatCompletionMessage } from "~/chat-messages";
+import { getPath } from "~/message-tree";
+import {
+	GenerationParametersSchema,
+	MessageContentPartSchema,
+	MessageStatusSchema,
+	TextContentPartSchema,
+	ToolCallSchema,
+} from "~/schemas";
+
+export type ExportFormat = "markdown" | "json" | "openai";
+
+const EXPORT_VERSION = 1;
+
+const ExportedMessageSchema = z.object({
+	id: z.string().min(1),
+	parent_id: z.string().nullable(),
+	role: z.enum(["user", "assistant", "tool"]),
+	content: z.string(),
+	tool_calls: z.array(ToolCallSchema).nullable().default(null),
+	tool_call_id: z.string().nullable().default(null),
+	content_parts: z.array(MessageContentPartSchema).nullable().default(null),
+	// How an assistant message was generated; a continued answer needs its
+	// status.
+	model: z.string().nullable().default(null),
+	prompt_tokens: z.number().int().nonnegative().nullable().default(null),
+	completion_tokens: z.number().int().nonnegative().nullable().default(null),
+	time_to_first_token_ms: z
+		.number()
+		.int()
+		.nonnegative()
+		.nullable()
+		.default(null),
+	latency_ms: z.number().int().nonnegative().nullable().default(null),
+	finish_reason: z.string().nullable().default(null),
+	status: MessageStatusSchema.nullable().default(null),
+	created_at: z.string().nullable().default(null),
+});
+
+// The images a conversation's messages refer to, with their data.
+const ExportedAttachmentSchema = z.object({
+	id: z.string().min(1),
+	mime_type: z
+		.string()
+		.refine((type) => SUPPORTED_ATTACHMENT_TYPES.includes(type), {
+			message: "Unsupported attachment type",
+		}),
+	// Base64, as stored.
+	data: z
+		.string()
+		.regex(/^[A-Za-z0-9+/]*={0,2}$/, "Invalid base64")
+		.refine((data) => getBase64Size(data) <= MAX_ATTACHMENT_BYTES, {
+			message: `Attachment is larger than ${MAX_ATTACHMENT_BYTES} bytes`,
+		}),
+	created_at: z.string().nullable().default(null),
+});
+
+const ExportedConversationSchema = z
+	.object({
+		id: z.string(),
+		title: z.string().nullable(),
+		system_prompt: z.string().nullable().default(null),
+		// Kept only if the persona exists where the conversation is imported.
+		persona_id: z.string().nullable().default(null),
+		model: z.string().nullable().default(null),
+		generation: GenerationParametersSchema.nullable().default(null),
+		pinned: z.boolean().default(false),
+		created_at: z.string().nullable().default(null),
+		updated_at: z.string().nullable().default(null),
+		active_message_id: z.string().nullable().default(null),
+		messages: z.array(ExportedMessageSchema),
+		attachments: z.array(ExportedAttachmentSchema).default([]),
+	})
+	.superRefine((conversation, ctx) => {
+		const attachmentIds = new Set(conversation.attachments.map(({ id }) => id));
+		const seen = new Set<string>();
+		for (const [index, message] of conversation.messages.entries()) {
+			for (const part of message.content_parts ?? []) {
+				if (part.type === "image" && !attachmentIds.has(part.attachment_id)) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: ["messages", index, "content_parts"],
+						message: "Image must be one of the attachments",
+					});
+				}
+			}
+			if (seen.has(message.id)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["messages", index, "id"],
+					message: "Duplicate message id",
+				});
+			}
+			if (message.parent_id !== null && !seen.has(message.parent_id)) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["messages", index, "parent_id"],
+					message: "Parent must be an earlier message",
+				});
+			}
+			seen.add(message.id);
+		}
+	});
+
+/**
+ * The lossless JSON format: every branch, tool call, image, timestamp and
+ * generation detail.
+ */
+const ExportDocumentSchema = z.object({
+	version: z.literal(EXPORT_VERSION),
+	exported_at: z.string(),
+	conversations: z.array(ExportedConversationSchema),
+});
+
+export type ExportedConversation = z.infer<typeof ExportedConversationSchema>;
+
+const TextContentSchema = z.union([
+	z.string(),
+	z
+		.array(TextContentPartSchema)
+		.transform((parts) => parts.map(({ text }) => text).join("")),
+]);
+
+export const OpenAIMessageSchema = z.discriminatedUnion("role", [
+	z.object({ role: z.literal("system"), content: TextContentSchema }),
+	z.object({ role: z.literal("developer"), content: TextContentSchema }),
+	z.object({ role: z.literal("user"), content: TextContentSchema }),
+	z.object({
+		role: z.literal("assistant"),
+		content: TextContentSchema.nullish().transform((content) => content ?? ""),
+		tool_calls: z.array(ToolCallSchema).optional(),
+	}),
+	z.object({
+		role: z.literal("tool"),
+		content: TextContentSchema,
+		tool_call_id: z.string(),
+	}),
+]);
+
+const OpenAIConversationSchema = z.union([
+	z.array(OpenAIMessageSchema),
+	z
+		.object({ messages: z.array(OpenAIMessageSchema) })
+		.transform(({ messages }) => messages),
+]);
+
+export function renderExport(
+	conversations: ExportedConversation[],
+	format: ExportFormat,
+	{ bulk }: { bulk: boolean },
+) {
+	switch (format) {
+		case "markdown":
+			return {
+				content: conversations.map(toMarkdown).join("\n\n---\n\n"),
+				mimeType: "text/markdown",
+				extension: "md",
+			};
+		case "openai": {
+			const lines = conversations.map((conversation) =>
+				JSON.stringify({ messages: toOpenAIMessages(conversation) }),
+			);
+			// One conversation is a plain JSON document; the whole account is
+			// JSON Lines, one `{"messages": [...]}` object per conversation.
+			return bulk
+				? {
+						content: lines.join("\n"),
+						mimeType: "application/jsonl",
+						extension: "jsonl",
+					}
+				: {
+						content: lines[0] ?? "",
+						mimeType: "application/json",
+						extension: "json",
+					};
+		}
+		case "json":
+			return {
+				content: JSON.stringify(
+					{
+						version: EXPORT_VERSION,
+						exported_at: new Date().toISOString(),
+						conversations,
+					},
+					null,
+					2,
+				),
+				mimeType: "application/json",
+				extension: "json",
+			};
+	}
+}
+
+/**
+ * Parses an import in the lossless JSON format or as OpenAI `messages`, given
+ * as an array, a `{"messages": [...]}` object or JSON Lines of those objects.
+ * Throws when the input doesn't match the format.
+ */
+export function parseImport(
+	content: string,
+	format: ExportFormat,
+): ExportedConversation[] {
+	switch (format) {
+		case "json":
+			return ExportDocumentSchema.parse(JSON.parse(content)).conversations;
+		case "openai":
+			return parseJsonOrJsonLines(content).map((value) =>
+				fromOpenAIMessages(OpenAIConversationSchema.parse(value)),
+			);
+		case "markdown":
+			throw new Error("Markdown exports can't be imported");
+	}
+}
+
+function parseJsonOrJsonLines(content: string): unknown[] {
+	try {
+		return [JSON.parse(content)];
+	} catch {
+		return content
+			.split("\n")
+			.filter((line) => line.trim())
+			.map((line) => JSON.parse(line));
+	}
+}
+
+function fromOpenAIMessages(
+	messages: z.infer<typeof OpenAIMessageSchema>[],
+): ExportedConversation {
+	const exportedMessages: ExportedConversation["messages"] = [];
+	const systemPrompts: string[] = [];
+	for (const message of messages) {
+		if (message.role === "system" || message.role === "developer") {
+			systemPrompts.push(message.content);
+			continue;
+		}
+		exportedMessages.push({
+			id: crypto.randomUUID(),
+			parent_id: exportedMessages[exportedMessages.length - 1]?.id ?? null,
+			role: message.role,
+			content: message.content,
+			tool_calls:
+				message.role === "assistant" && message.tool_calls?.length
+					? message.tool_calls
+					: null,
+			tool_call_id: message.role === "tool" ? message.tool_call_id : null,
+			content_parts: null,
+			model: null,
+			prompt_tokens: null,
+			completion_tokens: null,
+			time_to_first_token_ms: null,
+			latency_ms: null,
+			finish_reason: null,
+			status: null,
+			created_at: null,
+		});
+	}
+	if (exportedMessages.length === 0) {
+		throw new Error("Conversation has no user or assistant messages");
+	}
+	return {
+		id: crypto.randomUUID(),
+		title: null,
+		system_prompt: systemPrompts.length > 0 ? systemPrompts.join("\n\n") : null,
+		persona_id: null,
+		model: null,
+		generation: null,
+		pinned: false,
+		created_at: null,
+		updated_at: null,
+		active_message_id: exportedMessages[exportedMessages.length - 1].id,
+		messages: exportedMessages,
+		attachments: [],
+	};
+}
+
+function getActivePath(conversation: ExportedConversation) {
+	return getPath(conversation.messages, conversation.active_message_id);
+}
+
+function toOpenAIMessages(
+	conversation: ExportedConversation,
+): ChatCompletionMessageParam[] {
+	const messages = getActivePath(conversation).map((message) =>
+		toChatCompletionMessage(message),
+	);
+	return conversation.system_prompt
+		? [{ role: "system", content: conversation.system_prompt }, ...messages]
+		: messages;
+}
+
+function toMarkdown(conversation: ExportedConversation) {
+	const sections = [`# ${conversation.title ?? "Untitled conversation"}`];
+	if (conversation.system_prompt) {
+		sections.push(`## System\n\n${conversation.system_prompt}`);
+	}
+	for (const message of getActivePath(conversation)) {
+		switch (message.role) {
+			case "user":
+				sections.push(`## User\n\n${message.content}`);
+				break;
+			case "assistant": {
+				const toolCalls = (message.tool_calls ?? []).map(
+					(toolCall) =>
+						`> Called \`${toolCall.function.name}\` with \`${toolCall.function.arguments}\``,
+				);
+				sections.push(
+					["## Assistant", message.content, ...toolCalls]
+						.filter(Boolean)
+						.join("\n\n"),
+				);
+				break;
+			}
+			case "tool":
+				sections.push(`### Tool result\n\n\`\`\`\n${message.content}\n\`\`\``);
+				break;
+		}
+	}
+	return sections.join("\n\n");
+}
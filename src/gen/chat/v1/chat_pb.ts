@@ -2,15 +2,15 @@
 // @generated from file chat/v1/chat.proto (package chat.v1, syntax proto3)
 /* eslint-disable */
 
-import type { GenFile, GenMessage, GenService } from "@bufbuild/protobuf/codegenv1";
-import { fileDesc, messageDesc, serviceDesc } from "@bufbuild/protobuf/codegenv1";
+import type { GenEnum, GenFile, GenMessage, GenService } from "@bufbuild/protobuf/codegenv1";
+import { enumDesc, fileDesc, messageDesc, serviceDesc } from "@bufbuild/protobuf/codegenv1";
 import type { Message as Message$1 } from "@bufbuild/protobuf";
 
 /**
  * Describes the file chat/v1/chat.proto.
  */
 export const file_chat_v1_chat: GenFile = /*@__PURE__*/
-  fileDesc("ChJjaGF0L3YxL2NoYXQucHJvdG8SB2NoYXQudjEiNgoFTW9kZWwSCgoCaWQYASABKAkSDAoEbmFtZRgCIAEoCRITCgtkZXNjcmlwdGlvbhgDIAEoCSITChFMaXN0TW9kZWxzUmVxdWVzdCI0ChJMaXN0TW9kZWxzUmVzcG9uc2USHgoGbW9kZWxzGAEgAygLMg4uY2hhdC52MS5Nb2RlbCJhCgxDb252ZXJzYXRpb24SCgoCaWQYASABKAkSDQoFdGl0bGUYAiABKAkSDgoGcGlubmVkGAMgASgIEhIKCmNyZWF0ZWRfYXQYBCABKAkSEgoKdXBkYXRlZF9hdBgFIAEoCSIaChhMaXN0Q29udmVyc2F0aW9uc1JlcXVlc3QiSQoZTGlzdENvbnZlcnNhdGlvbnNSZXNwb25zZRIsCg1jb252ZXJzYXRpb25zGAEgAygLMhUuY2hhdC52MS5Db252ZXJzYXRpb24iGwoZQ3JlYXRlQ29udmVyc2F0aW9uUmVxdWVzdCJJChpDcmVhdGVDb252ZXJzYXRpb25SZXNwb25zZRIrCgxjb252ZXJzYXRpb24YASABKAsyFS5jaGF0LnYxLkNvbnZlcnNhdGlvbiI0ChlEZWxldGVDb252ZXJzYXRpb25SZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCSIcChpEZWxldGVDb252ZXJzYXRpb25SZXNwb25zZSJDChlSZW5hbWVDb252ZXJzYXRpb25SZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCRINCgV0aXRsZRgCIAEoCSIcChpSZW5hbWVDb252ZXJzYXRpb25SZXNwb25zZSIxChZQaW5Db252ZXJzYXRpb25SZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCSIZChdQaW5Db252ZXJzYXRpb25SZXNwb25zZSIzChhVbnBpbkNvbnZlcnNhdGlvblJlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJIhsKGVVucGluQ29udmVyc2F0aW9uUmVzcG9uc2UiYQoHTWVzc2FnZRIKCgJpZBgBIAEoCRIXCg9jb252ZXJzYXRpb25faWQYAiABKAkSDAoEcm9sZRgDIAEoCRIPCgdjb250ZW50GAQgASgJEhIKCmNyZWF0ZWRfYXQYBSABKAkiLgoTTGlzdE1lc3NhZ2VzUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkiOgoUTGlzdE1lc3NhZ2VzUmVzcG9uc2USIgoIbWVzc2FnZXMYASADKAsyEC5jaGF0LnYxLk1lc3NhZ2UiIAoQU3RyZWFtVFRTUmVxdWVzdBIMCgR0ZXh0GAEgASgJIiIKEVN0cmVhbVRUU1Jlc3BvbnNlEg0KBWF1ZGlvGAEgASgMIiQKE1NwZWVjaFRvVGV4dFJlcXVlc3QSDQoFYXVkaW8YASABKAwiJAoUU3BlZWNoVG9UZXh0UmVzcG9uc2USDAoEdGV4dBgBIAEoCSIaChhBbm9ueW1vdXNSZWdpc3RlclJlcXVlc3QiMQoZQW5vbnltb3VzUmVnaXN0ZXJSZXNwb25zZRIUCgxhY2Nlc3NfdG9rZW4YASABKAkyuwcKC0NoYXRTZXJ2aWNlEkUKCkxpc3RNb2RlbHMSGi5jaGF0LnYxLkxpc3RNb2RlbHNSZXF1ZXN0GhsuY2hhdC52MS5MaXN0TW9kZWxzUmVzcG9uc2USWgoRTGlzdENvbnZlcnNhdGlvbnMSIS5jaGF0LnYxLkxpc3RDb252ZXJzYXRpb25zUmVxdWVzdBoiLmNoYXQudjEuTGlzdENvbnZlcnNhdGlvbnNSZXNwb25zZRJdChJDcmVhdGVDb252ZXJzYXRpb24SIi5jaGF0LnYxLkNyZWF0ZUNvbnZlcnNhdGlvblJlcXVlc3QaIy5jaGF0LnYxLkNyZWF0ZUNvbnZlcnNhdGlvblJlc3BvbnNlEl0KEkRlbGV0ZUNvbnZlcnNhdGlvbhIiLmNoYXQudjEuRGVsZXRlQ29udmVyc2F0aW9uUmVxdWVzdBojLmNoYXQudjEuRGVsZXRlQ29udmVyc2F0aW9uUmVzcG9uc2USXQoSUmVuYW1lQ29udmVyc2F0aW9uEiIuY2hhdC52MS5SZW5hbWVDb252ZXJzYXRpb25SZXF1ZXN0GiMuY2hhdC52MS5SZW5hbWVDb252ZXJzYXRpb25SZXNwb25zZRJUCg9QaW5Db252ZXJzYXRpb24SHy5jaGF0LnYxLlBpbkNvbnZlcnNhdGlvblJlcXVlc3QaIC5jaGF0LnYxLlBpbkNvbnZlcnNhdGlvblJlc3BvbnNlEloKEVVucGluQ29udmVyc2F0aW9uEiEuY2hhdC52MS5VbnBpbkNvbnZlcnNhdGlvblJlcXVlc3QaIi5jaGF0LnYxLlVucGluQ29udmVyc2F0aW9uUmVzcG9uc2USSwoMTGlzdE1lc3NhZ2VzEhwuY2hhdC52MS5MaXN0TWVzc2FnZXNSZXF1ZXN0Gh0uY2hhdC52MS5MaXN0TWVzc2FnZXNSZXNwb25zZRJECglTdHJlYW1UVFMSGS5jaGF0LnYxLlN0cmVhbVRUU1JlcXVlc3QaGi5jaGF0LnYxLlN0cmVhbVRUU1Jlc3BvbnNlMAESSwoMU3BlZWNoVG9UZXh0EhwuY2hhdC52MS5TcGVlY2hUb1RleHRSZXF1ZXN0Gh0uY2hhdC52MS5TcGVlY2hUb1RleHRSZXNwb25zZRJaChFBbm9ueW1vdXNSZWdpc3RlchIhLmNoYXQudjEuQW5vbnltb3VzUmVnaXN0ZXJSZXF1ZXN0GiIuY2hhdC52MS5Bbm9ueW1vdXNSZWdpc3RlclJlc3BvbnNlYgZwcm90bzM");
+  fileDesc("ChJjaGF0L3YxL2NoYXQucHJvdG8SB2NoYXQudjEi5wEKBU1vZGVsEgoKAmlkGAEgASgJEgwKBG5hbWUYAiABKAkSEwoLZGVzY3JpcHRpb24YAyABKAkSIAoEdGFzaxgEIAEoDjISLmNoYXQudjEuTW9kZWxUYXNrEhYKDmNvbnRleHRfd2luZG93GAUgASgFEhgKEGZ1bmN0aW9uX2NhbGxpbmcYBiABKAgSDgoGdmlzaW9uGAcgASgIEhEKCXJlYXNvbmluZxgIIAEoCBIqCgxwcmljaW5nX3RpZXIYCSABKA4yFC5jaGF0LnYxLlByaWNpbmdUaWVyEgwKBGJldGEYCiABKAgiNQoRTGlzdE1vZGVsc1JlcXVlc3QSIAoEdGFzaxgBIAEoDjISLmNoYXQudjEuTW9kZWxUYXNrIjQKEkxpc3RNb2RlbHNSZXNwb25zZRIeCgZtb2RlbHMYASADKAsyDi5jaGF0LnYxLk1vZGVsItABChRHZW5lcmF0aW9uUGFyYW1ldGVycxIYCgt0ZW1wZXJhdHVyZRgBIAEoAUgAiAEBEhIKBXRvcF9wGAIgASgBSAGIAQESIgoVbWF4X2NvbXBsZXRpb25fdG9rZW5zGAMgASgFSAKIAQESHQoQcmVhc29uaW5nX2VmZm9ydBgEIAEoCUgDiAEBQg4KDF90ZW1wZXJhdHVyZUIICgZfdG9wX3BCGAoWX21heF9jb21wbGV0aW9uX3Rva2Vuc0ITChFfcmVhc29uaW5nX2VmZm9ydCLOAQoMQ29udmVyc2F0aW9uEgoKAmlkGAEgASgJEg0KBXRpdGxlGAIgASgJEg4KBnBpbm5lZBgDIAEoCBISCgpjcmVhdGVkX2F0GAQgASgJEhIKCnVwZGF0ZWRfYXQYBSABKAkSMQoKcGFyYW1ldGVycxgGIAEoCzIdLmNoYXQudjEuR2VuZXJhdGlvblBhcmFtZXRlcnMSFQoNc3lzdGVtX3Byb21wdBgHIAEoCRISCgpwZXJzb25hX2lkGAggASgJEg0KBW1vZGVsGAkgASgJIkEKGExpc3RDb252ZXJzYXRpb25zUmVxdWVzdBIRCglwYWdlX3NpemUYASABKAUSEgoKcGFnZV90b2tlbhgCIAEoCSJiChlMaXN0Q29udmVyc2F0aW9uc1Jlc3BvbnNlEiwKDWNvbnZlcnNhdGlvbnMYASADKAsyFS5jaGF0LnYxLkNvbnZlcnNhdGlvbhIXCg9uZXh0X3BhZ2VfdG9rZW4YAiABKAkiRgoZQ3JlYXRlQ29udmVyc2F0aW9uUmVxdWVzdBISCgpwZXJzb25hX2lkGAEgASgJEhUKDXN5c3RlbV9wcm9tcHQYAiABKAkiSQoaQ3JlYXRlQ29udmVyc2F0aW9uUmVzcG9uc2USKwoMY29udmVyc2F0aW9uGAEgASgLMhUuY2hhdC52MS5Db252ZXJzYXRpb24iNAoZRGVsZXRlQ29udmVyc2F0aW9uUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkiHAoaRGVsZXRlQ29udmVyc2F0aW9uUmVzcG9uc2UiQwoZUmVuYW1lQ29udmVyc2F0aW9uUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkSDQoFdGl0bGUYAiABKAkiHAoaUmVuYW1lQ29udmVyc2F0aW9uUmVzcG9uc2UiMQoWUGluQ29udmVyc2F0aW9uUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkiGQoXUGluQ29udmVyc2F0aW9uUmVzcG9uc2UicQojVXBkYXRlQ29udmVyc2F0aW9uUGFyYW1ldGVyc1JlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEjEKCnBhcmFtZXRlcnMYAiABKAsyHS5jaGF0LnYxLkdlbmVyYXRpb25QYXJhbWV0ZXJzIlMKJFVwZGF0ZUNvbnZlcnNhdGlvblBhcmFtZXRlcnNSZXNwb25zZRIrCgxjb252ZXJzYXRpb24YASABKAsyFS5jaGF0LnYxLkNvbnZlcnNhdGlvbiJXCiVVcGRhdGVDb252ZXJzYXRpb25TeXN0ZW1Qcm9tcHRSZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCRIVCg1zeXN0ZW1fcHJvbXB0GAIgASgJIlUKJlVwZGF0ZUNvbnZlcnNhdGlvblN5c3RlbVByb21wdFJlc3BvbnNlEisKDGNvbnZlcnNhdGlvbhgBIAEoCzIVLmNoYXQudjEuQ29udmVyc2F0aW9uIjMKGFVucGluQ29udmVyc2F0aW9uUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkiGwoZVW5waW5Db252ZXJzYXRpb25SZXNwb25zZSI3CghUb29sQ2FsbBIKCgJpZBgBIAEoCRIMCgRuYW1lGAIgASgJEhEKCWFyZ3VtZW50cxgDIAEoCSI+CgtDb250ZW50UGFydBIOCgR0ZXh0GAEgASgJSAASFwoNYXR0YWNobWVudF9pZBgCIAEoCUgAQgYKBHBhcnQi6AEKEkdlbmVyYXRpb25NZXRhZGF0YRINCgVtb2RlbBgBIAEoCRIVCg1wcm9tcHRfdG9rZW5zGAIgASgFEhkKEWNvbXBsZXRpb25fdG9rZW5zGAMgASgFEiMKFnRpbWVfdG9fZmlyc3RfdG9rZW5fbXMYBCABKAVIAIgBARISCgpsYXRlbmN5X21zGAUgASgFEhUKDWZpbmlzaF9yZWFzb24YBiABKAkSJgoGc3RhdHVzGAcgASgOMhYuY2hhdC52MS5NZXNzYWdlU3RhdHVzQhkKF190aW1lX3RvX2ZpcnN0X3Rva2VuX21zIrMCCgdNZXNzYWdlEgoKAmlkGAEgASgJEhcKD2NvbnZlcnNhdGlvbl9pZBgCIAEoCRIMCgRyb2xlGAMgASgJEg8KB2NvbnRlbnQYBCABKAkSEgoKY3JlYXRlZF9hdBgFIAEoCRIlCgp0b29sX2NhbGxzGAYgAygLMhEuY2hhdC52MS5Ub29sQ2FsbBIUCgx0b29sX2NhbGxfaWQYByABKAkSEQoJcGFyZW50X2lkGAggASgJEhUKDXNpYmxpbmdfY291bnQYCSABKAUSFQoNc2libGluZ19pbmRleBgKIAEoBRIjCgVwYXJ0cxgLIAMoCzIULmNoYXQudjEuQ29udGVudFBhcnQSLQoIbWV0YWRhdGEYDCABKAsyGy5jaGF0LnYxLkdlbmVyYXRpb25NZXRhZGF0YSJzChNMaXN0TWVzc2FnZXNSZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCRIcChRpbmNsdWRlX2FsbF9icmFuY2hlcxgCIAEoCBIRCglwYWdlX3NpemUYAyABKAUSEgoKcGFnZV90b2tlbhgEIAEoCSJTChRMaXN0TWVzc2FnZXNSZXNwb25zZRIiCghtZXNzYWdlcxgBIAMoCzIQLmNoYXQudjEuTWVzc2FnZRIXCg9uZXh0X3BhZ2VfdG9rZW4YAiABKAkiSQoaTGlzdE1lc3NhZ2VWZXJzaW9uc1JlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEhIKCm1lc3NhZ2VfaWQYAiABKAkiVwobTGlzdE1lc3NhZ2VWZXJzaW9uc1Jlc3BvbnNlEiIKCHZlcnNpb25zGAEgAygLMhAuY2hhdC52MS5NZXNzYWdlEhQKDGFjdGl2ZV9pbmRleBgCIAEoBSJKChtTd2l0Y2hNZXNzYWdlVmVyc2lvblJlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEhIKCm1lc3NhZ2VfaWQYAiABKAkiQgocU3dpdGNoTWVzc2FnZVZlcnNpb25SZXNwb25zZRIiCghtZXNzYWdlcxgBIAMoCzIQLmNoYXQudjEuTWVzc2FnZSJNChVTZWFyY2hNZXNzYWdlc1JlcXVlc3QSDQoFcXVlcnkYASABKAkSEQoJcGFnZV9zaXplGAIgASgFEhIKCnBhZ2VfdG9rZW4YAyABKAkiigEKDFNlYXJjaFJlc3VsdBISCgptZXNzYWdlX2lkGAEgASgJEhcKD2NvbnZlcnNhdGlvbl9pZBgCIAEoCRIaChJjb252ZXJzYXRpb25fdGl0bGUYAyABKAkSDAoEcm9sZRgEIAEoCRIPCgdzbmlwcGV0GAUgASgJEhIKCmNyZWF0ZWRfYXQYBiABKAkiWQoWU2VhcmNoTWVzc2FnZXNSZXNwb25zZRImCgdyZXN1bHRzGAEgAygLMhUuY2hhdC52MS5TZWFyY2hSZXN1bHQSFwoPbmV4dF9wYWdlX3Rva2VuGAIgASgJIlsKGUV4cG9ydENvbnZlcnNhdGlvblJlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEiUKBmZvcm1hdBgCIAEoDjIVLmNoYXQudjEuRXhwb3J0Rm9ybWF0IlIKGkV4cG9ydENvbnZlcnNhdGlvblJlc3BvbnNlEg8KB2NvbnRlbnQYASABKAkSEQoJbWltZV90eXBlGAIgASgJEhAKCGZpbGVuYW1lGAMgASgJIkYKHUV4cG9ydEFsbENvbnZlcnNhdGlvbnNSZXF1ZXN0EiUKBmZvcm1hdBgBIAEoDjIVLmNoYXQudjEuRXhwb3J0Rm9ybWF0IlYKHkV4cG9ydEFsbENvbnZlcnNhdGlvbnNSZXNwb25zZRIPCgdjb250ZW50GAEgASgJEhEKCW1pbWVfdHlwZRgCIAEoCRIQCghmaWxlbmFtZRgDIAEoCSJTChlJbXBvcnRDb252ZXJzYXRpb25SZXF1ZXN0EiUKBmZvcm1hdBgBIAEoDjIVLmNoYXQudjEuRXhwb3J0Rm9ybWF0Eg8KB2NvbnRlbnQYAiABKAkiSgoaSW1wb3J0Q29udmVyc2F0aW9uUmVzcG9uc2USLAoNY29udmVyc2F0aW9ucxgBIAMoCzIVLmNoYXQudjEuQ29udmVyc2F0aW9uIkAKBVNoYXJlEgoKAmlkGAEgASgJEhcKD2NvbnZlcnNhdGlvbl9pZBgCIAEoCRISCgpjcmVhdGVkX2F0GAMgASgJIjMKGFNoYXJlQ29udmVyc2F0aW9uUmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkiOgoZU2hhcmVDb252ZXJzYXRpb25SZXNwb25zZRIdCgVzaGFyZRgBIAEoCzIOLmNoYXQudjEuU2hhcmUiLAoRTGlzdFNoYXJlc1JlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJIjQKEkxpc3RTaGFyZXNSZXNwb25zZRIeCgZzaGFyZXMYASADKAsyDi5jaGF0LnYxLlNoYXJlIiYKElJldm9rZVNoYXJlUmVxdWVzdBIQCghzaGFyZV9pZBgBIAEoCSIVChNSZXZva2VTaGFyZVJlc3BvbnNlIk0KCkF0dGFjaG1lbnQSCgoCaWQYASABKAkSEQoJbWltZV90eXBlGAIgASgJEgwKBHNpemUYAyABKAUSEgoKY3JlYXRlZF9hdBgEIAEoCSI6ChdVcGxvYWRBdHRhY2htZW50UmVxdWVzdBIMCgRkYXRhGAEgASgMEhEKCW1pbWVfdHlwZRgCIAEoCSJDChhVcGxvYWRBdHRhY2htZW50UmVzcG9uc2USJwoKYXR0YWNobWVudBgBIAEoCzITLmNoYXQudjEuQXR0YWNobWVudCItChRHZXRBdHRhY2htZW50UmVxdWVzdBIVCg1hdHRhY2htZW50X2lkGAEgASgJIk4KFUdldEF0dGFjaG1lbnRSZXNwb25zZRInCgphdHRhY2htZW50GAEgASgLMhMuY2hhdC52MS5BdHRhY2htZW50EgwKBGRhdGEYAiABKAwiZwoIU2V0dGluZ3MSFQoNZGVmYXVsdF9tb2RlbBgBIAEoCRIRCgl0dHNfdm9pY2UYAiABKAkSMQoKcGFyYW1ldGVycxgDIAEoCzIdLmNoYXQudjEuR2VuZXJhdGlvblBhcmFtZXRlcnMiFAoSR2V0U2V0dGluZ3NSZXF1ZXN0IjoKE0dldFNldHRpbmdzUmVzcG9uc2USIwoIc2V0dGluZ3MYASABKAsyES5jaGF0LnYxLlNldHRpbmdzIjwKFVVwZGF0ZVNldHRpbmdzUmVxdWVzdBIjCghzZXR0aW5ncxgBIAEoCzIRLmNoYXQudjEuU2V0dGluZ3MiPQoWVXBkYXRlU2V0dGluZ3NSZXNwb25zZRIjCghzZXR0aW5ncxgBIAEoCzIRLmNoYXQudjEuU2V0dGluZ3MipAEKB1BlcnNvbmESCgoCaWQYASABKAkSDAoEbmFtZRgCIAEoCRIVCg1zeXN0ZW1fcHJvbXB0GAMgASgJEg0KBW1vZGVsGAQgASgJEjEKCnBhcmFtZXRlcnMYBSABKAsyHS5jaGF0LnYxLkdlbmVyYXRpb25QYXJhbWV0ZXJzEhIKCmNyZWF0ZWRfYXQYBiABKAkSEgoKdXBkYXRlZF9hdBgHIAEoCSIVChNMaXN0UGVyc29uYXNSZXF1ZXN0IjoKFExpc3RQZXJzb25hc1Jlc3BvbnNlEiIKCHBlcnNvbmFzGAEgAygLMhAuY2hhdC52MS5QZXJzb25hIn0KFENyZWF0ZVBlcnNvbmFSZXF1ZXN0EgwKBG5hbWUYASABKAkSFQoNc3lzdGVtX3Byb21wdBgCIAEoCRINCgVtb2RlbBgDIAEoCRIxCgpwYXJhbWV0ZXJzGAQgASgLMh0uY2hhdC52MS5HZW5lcmF0aW9uUGFyYW1ldGVycyI6ChVDcmVhdGVQZXJzb25hUmVzcG9uc2USIQoHcGVyc29uYRgBIAEoCzIQLmNoYXQudjEuUGVyc29uYSKRAQoUVXBkYXRlUGVyc29uYVJlcXVlc3QSEgoKcGVyc29uYV9pZBgBIAEoCRIMCgRuYW1lGAIgASgJEhUKDXN5c3RlbV9wcm9tcHQYAyABKAkSDQoFbW9kZWwYBCABKAkSMQoKcGFyYW1ldGVycxgFIAEoCzIdLmNoYXQudjEuR2VuZXJhdGlvblBhcmFtZXRlcnMiOgoVVXBkYXRlUGVyc29uYVJlc3BvbnNlEiEKB3BlcnNvbmEYASABKAsyEC5jaGF0LnYxLlBlcnNvbmEiKgoURGVsZXRlUGVyc29uYVJlcXVlc3QSEgoKcGVyc29uYV9pZBgBIAEoCSIXChVEZWxldGVQZXJzb25hUmVzcG9uc2UiUgoGTWVtb3J5EgoKAmlkGAEgASgJEg8KB2NvbnRlbnQYAiABKAkSFwoPY29udmVyc2F0aW9uX2lkGAMgASgJEhIKCmNyZWF0ZWRfYXQYBCABKAkiFQoTTGlzdE1lbW9yaWVzUmVxdWVzdCI5ChRMaXN0TWVtb3JpZXNSZXNwb25zZRIhCghtZW1vcmllcxgBIAMoCzIPLmNoYXQudjEuTWVtb3J5IiMKEEFkZE1lbW9yeVJlcXVlc3QSDwoHY29udGVudBgBIAEoCSI0ChFBZGRNZW1vcnlSZXNwb25zZRIfCgZtZW1vcnkYASABKAsyDy5jaGF0LnYxLk1lbW9yeSIoChNEZWxldGVNZW1vcnlSZXF1ZXN0EhEKCW1lbW9yeV9pZBgBIAEoCSIWChREZWxldGVNZW1vcnlSZXNwb25zZSKHAQoIRG9jdW1lbnQSCgoCaWQYASABKAkSFwoPY29udmVyc2F0aW9uX2lkGAIgASgJEgwKBG5hbWUYAyABKAkSEQoJbWltZV90eXBlGAQgASgJEgwKBHNpemUYBSABKAUSEwoLY2h1bmtfY291bnQYBiABKAUSEgoKY3JlYXRlZF9hdBgHIAEoCSJfChVVcGxvYWREb2N1bWVudFJlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEgwKBG5hbWUYAiABKAkSEQoJbWltZV90eXBlGAMgASgJEgwKBGRhdGEYBCABKAwiPQoWVXBsb2FkRG9jdW1lbnRSZXNwb25zZRIjCghkb2N1bWVudBgBIAEoCzIRLmNoYXQudjEuRG9jdW1lbnQiLwoUTGlzdERvY3VtZW50c1JlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJIj0KFUxpc3REb2N1bWVudHNSZXNwb25zZRIkCglkb2N1bWVudHMYASADKAsyES5jaGF0LnYxLkRvY3VtZW50IiwKFURlbGV0ZURvY3VtZW50UmVxdWVzdBITCgtkb2N1bWVudF9pZBgBIAEoCSIYChZEZWxldGVEb2N1bWVudFJlc3BvbnNlIkwKDlRvb2xEZWZpbml0aW9uEgwKBG5hbWUYASABKAkSEwoLZGVzY3JpcHRpb24YAiABKAkSFwoPcGFyYW1ldGVyc19qc29uGAMgASgJIvcBChFTdHJlYW1DaGF0UmVxdWVzdBIXCg9jb252ZXJzYXRpb25faWQYASABKAkSDwoHY29udGVudBgCIAEoCRINCgVtb2RlbBgDIAEoCRImCgV0b29scxgEIAMoCzIXLmNoYXQudjEuVG9vbERlZmluaXRpb24SEAoIZXZlbnRfaWQYBSABKAkSFwoPZWRpdF9tZXNzYWdlX2lkGAYgASgJEiMKBXBhcnRzGAcgAygLMhQuY2hhdC52MS5Db250ZW50UGFydBIxCgpwYXJhbWV0ZXJzGAggASgLMh0uY2hhdC52MS5HZW5lcmF0aW9uUGFyYW1ldGVycyKoAQoRUmVnZW5lcmF0ZVJlcXVlc3QSFwoPY29udmVyc2F0aW9uX2lkGAEgASgJEg0KBW1vZGVsGAIgASgJEiYKBXRvb2xzGAMgAygLMhcuY2hhdC52MS5Ub29sRGVmaW5pdGlvbhIQCghldmVudF9pZBgEIAEoCRIxCgpwYXJhbWV0ZXJzGAUgASgLMh0uY2hhdC52MS5HZW5lcmF0aW9uUGFyYW1ldGVycyKSAQoPQ29udGludWVSZXF1ZXN0EhcKD2NvbnZlcnNhdGlvbl9pZBgBIAEoCRISCgptZXNzYWdlX2lkGAIgASgJEg0KBW1vZGVsGAMgASgJEhAKCGV2ZW50X2lkGAQgASgJEjEKCnBhcmFtZXRlcnMYBSABKAsyHS5jaGF0LnYxLkdlbmVyYXRpb25QYXJhbWV0ZXJzIhwKCUNoYXREZWx0YRIPCgdjb250ZW50GAEgASgJIkUKDENoYXRUb29sQ2FsbBIUCgx0b29sX2NhbGxfaWQYASABKAkSDAoEbmFtZRgCIAEoCRIRCglhcmd1bWVudHMYAyABKAkiRAoOQ2hhdFRvb2xSZXN1bHQSFAoMdG9vbF9jYWxsX2lkGAEgASgJEgwKBG5hbWUYAiABKAkSDgoGcmVzdWx0GAMgASgJIhoKCUNoYXRUaXRsZRINCgV0aXRsZRgBIAEoCSIvCgxGdW5jdGlvbkNhbGwSDAoEbmFtZRgBIAEoCRIRCglhcmd1bWVudHMYAiABKAkiewoIQ2l0YXRpb24SDQoFaW5kZXgYASABKAUSEwoLZG9jdW1lbnRfaWQYAiABKAkSFQoNZG9jdW1lbnRfbmFtZRgDIAEoCRIQCghjaHVua19pZBgEIAEoCRITCgtjaHVua19pbmRleBgFIAEoBRINCgVzY29yZRgGIAEoASKhAQoIQ2hhdERvbmUSLAoNZnVuY3Rpb25fY2FsbBgBIAEoCzIVLmNoYXQudjEuRnVuY3Rpb25DYWxsEiQKCWNpdGF0aW9ucxgCIAMoCzIRLmNoYXQudjEuQ2l0YXRpb24SEgoKbWVzc2FnZV9pZBgDIAEoCRItCghtZXRhZGF0YRgEIAEoCzIbLmNoYXQudjEuR2VuZXJhdGlvbk1ldGFkYXRhIpoCCglDaGF0RXZlbnQSEAoIZXZlbnRfaWQYASABKAkSFwoPY29udmVyc2F0aW9uX2lkGAIgASgJEhAKCHNlcXVlbmNlGAMgASgFEiMKBWRlbHRhGAQgASgLMhIuY2hhdC52MS5DaGF0RGVsdGFIABIqCgl0b29sX2NhbGwYBSABKAsyFS5jaGF0LnYxLkNoYXRUb29sQ2FsbEgAEi4KC3Rvb2xfcmVzdWx0GAYgASgLMhcuY2hhdC52MS5DaGF0VG9vbFJlc3VsdEgAEiMKBXRpdGxlGAcgASgLMhIuY2hhdC52MS5DaGF0VGl0bGVIABIhCgRkb25lGAggASgLMhEuY2hhdC52MS5DaGF0RG9uZUgAQgcKBWV2ZW50IkUKEFN0cmVhbVRUU1JlcXVlc3QSDAoEdGV4dBgBIAEoCRINCgV2b2ljZRgCIAEoCRIUCgxsbG1fY2h1bmtpbmcYAyABKAgiIgoRU3RyZWFtVFRTUmVzcG9uc2USDQoFYXVkaW8YASABKAwiJAoTU3BlZWNoVG9UZXh0UmVxdWVzdBINCgVhdWRpbxgBIAEoDCIkChRTcGVlY2hUb1RleHRSZXNwb25zZRIMCgR0ZXh0GAEgASgJInsKC1VzYWdlTGltaXRzEhsKE3JlcXVlc3RzX3Blcl9taW51dGUYASABKAUSGAoQcmVxdWVzdHNfcGVyX2RheRgCIAEoBRIWCg50b2tlbnNfcGVyX2RheRgDIAEoBRIdChVhdWRpb19zZWNvbmRzX3Blcl9kYXkYBCABKAEiEQoPR2V0VXNhZ2VSZXF1ZXN0IqABChBHZXRVc2FnZVJlc3BvbnNlEgsKA2RheRgBIAEoCRIQCghyZXF1ZXN0cxgCIAEoBRIVCg1wcm9tcHRfdG9rZW5zGAMgASgFEhkKEWNvbXBsZXRpb25fdG9rZW5zGAQgASgFEhUKDWF1ZGlvX3NlY29uZHMYBSABKAESJAoGbGltaXRzGAYgASgLMhQuY2hhdC52MS5Vc2FnZUxpbWl0cyJLCgpHZW5lcmF0aW9uEhAKCGV2ZW50X2lkGAEgASgJEhcKD2NvbnZlcnNhdGlvbl9pZBgCIAEoCRISCgpzdGFydGVkX2F0GAMgASgJIhgKFkxpc3RHZW5lcmF0aW9uc1JlcXVlc3QiQwoXTGlzdEdlbmVyYXRpb25zUmVzcG9uc2USKAoLZ2VuZXJhdGlvbnMYASADKAsyEy5jaGF0LnYxLkdlbmVyYXRpb24iGgoYQW5vbnltb3VzUmVnaXN0ZXJSZXF1ZXN0IjEKGUFub255bW91c1JlZ2lzdGVyUmVzcG9uc2USFAoMYWNjZXNzX3Rva2VuGAEgASgJIjIKD1JlZ2lzdGVyUmVxdWVzdBINCgVlbWFpbBgBIAEoCRIQCghwYXNzd29yZBgCIAEoCSI5ChBSZWdpc3RlclJlc3BvbnNlEhQKDGFjY2Vzc190b2tlbhgBIAEoCRIPCgd1c2VyX2lkGAIgASgJIi8KDExvZ2luUmVxdWVzdBINCgVlbWFpbBgBIAEoCRIQCghwYXNzd29yZBgCIAEoCSI2Cg1Mb2dpblJlc3BvbnNlEhQKDGFjY2Vzc190b2tlbhgBIAEoCRIPCgd1c2VyX2lkGAIgASgJIhoKGENyZWF0ZVBhaXJpbmdDb2RlUmVxdWVzdCI9ChlDcmVhdGVQYWlyaW5nQ29kZVJlc3BvbnNlEgwKBGNvZGUYASABKAkSEgoKZXhwaXJlc19hdBgCIAEoCSIoChhSZWRlZW1QYWlyaW5nQ29kZVJlcXVlc3QSDAoEY29kZRgBIAEoCSJCChlSZWRlZW1QYWlyaW5nQ29kZVJlc3BvbnNlEhQKDGFjY2Vzc190b2tlbhgBIAEoCRIPCgd1c2VyX2lkGAIgASgJKokBCglNb2RlbFRhc2sSGgoWTU9ERUxfVEFTS19VTlNQRUNJRklFRBAAEh4KGk1PREVMX1RBU0tfVEVYVF9HRU5FUkFUSU9OEAESIQodTU9ERUxfVEFTS19TUEVFQ0hfUkVDT0dOSVRJT04QAhIdChlNT0RFTF9UQVNLX1RFWFRfVE9fU1BFRUNIEAMqcQoLUHJpY2luZ1RpZXISHAoYUFJJQ0lOR19USUVSX1VOU1BFQ0lGSUVEEAASFAoQUFJJQ0lOR19USUVSX0xPVxABEhcKE1BSSUNJTkdfVElFUl9NRURJVU0QAhIVChFQUklDSU5HX1RJRVJfSElHSBADKqIBCg1NZXNzYWdlU3RhdHVzEh4KGk1FU1NBR0VfU1RBVFVTX1VOU1BFQ0lGSUVEEAASGwoXTUVTU0FHRV9TVEFUVVNfQ09NUExFVEUQARIcChhNRVNTQUdFX1NUQVRVU19DQU5DRUxMRUQQAhIYChRNRVNTQUdFX1NUQVRVU19FUlJPUhADEhwKGE1FU1NBR0VfU1RBVFVTX1RSVU5DQVRFRBAEKnsKDEV4cG9ydEZvcm1hdBIdChlFWFBPUlRfRk9STUFUX1VOU1BFQ0lGSUVEEAASGgoWRVhQT1JUX0ZPUk1BVF9NQVJLRE9XThABEhYKEkVYUE9SVF9GT1JNQVRfSlNPThACEhgKFEVYUE9SVF9GT1JNQVRfT1BFTkFJEAMyxx0KC0NoYXRTZXJ2aWNlEkUKCkxpc3RNb2RlbHMSGi5jaGF0LnYxLkxpc3RNb2RlbHNSZXF1ZXN0GhsuY2hhdC52MS5MaXN0TW9kZWxzUmVzcG9uc2USWgoRTGlzdENvbnZlcnNhdGlvbnMSIS5jaGF0LnYxLkxpc3RDb252ZXJzYXRpb25zUmVxdWVzdBoiLmNoYXQudjEuTGlzdENvbnZlcnNhdGlvbnNSZXNwb25zZRJdChJDcmVhdGVDb252ZXJzYXRpb24SIi5jaGF0LnYxLkNyZWF0ZUNvbnZlcnNhdGlvblJlcXVlc3QaIy5jaGF0LnYxLkNyZWF0ZUNvbnZlcnNhdGlvblJlc3BvbnNlEl0KEkRlbGV0ZUNvbnZlcnNhdGlvbhIiLmNoYXQudjEuRGVsZXRlQ29udmVyc2F0aW9uUmVxdWVzdBojLmNoYXQudjEuRGVsZXRlQ29udmVyc2F0aW9uUmVzcG9uc2USXQoSUmVuYW1lQ29udmVyc2F0aW9uEiIuY2hhdC52MS5SZW5hbWVDb252ZXJzYXRpb25SZXF1ZXN0GiMuY2hhdC52MS5SZW5hbWVDb252ZXJzYXRpb25SZXNwb25zZRJUCg9QaW5Db252ZXJzYXRpb24SHy5jaGF0LnYxLlBpbkNvbnZlcnNhdGlvblJlcXVlc3QaIC5jaGF0LnYxLlBpbkNvbnZlcnNhdGlvblJlc3BvbnNlEloKEVVucGluQ29udmVyc2F0aW9uEiEuY2hhdC52MS5VbnBpbkNvbnZlcnNhdGlvblJlcXVlc3QaIi5jaGF0LnYxLlVucGluQ29udmVyc2F0aW9uUmVzcG9uc2USSwoMTGlzdE1lc3NhZ2VzEhwuY2hhdC52MS5MaXN0TWVzc2FnZXNSZXF1ZXN0Gh0uY2hhdC52MS5MaXN0TWVzc2FnZXNSZXNwb25zZRJgChNMaXN0TWVzc2FnZVZlcnNpb25zEiMuY2hhdC52MS5MaXN0TWVzc2FnZVZlcnNpb25zUmVxdWVzdBokLmNoYXQudjEuTGlzdE1lc3NhZ2VWZXJzaW9uc1Jlc3BvbnNlEmMKFFN3aXRjaE1lc3NhZ2VWZXJzaW9uEiQuY2hhdC52MS5Td2l0Y2hNZXNzYWdlVmVyc2lvblJlcXVlc3QaJS5jaGF0LnYxLlN3aXRjaE1lc3NhZ2VWZXJzaW9uUmVzcG9uc2USUQoOU2VhcmNoTWVzc2FnZXMSHi5jaGF0LnYxLlNlYXJjaE1lc3NhZ2VzUmVxdWVzdBofLmNoYXQudjEuU2VhcmNoTWVzc2FnZXNSZXNwb25zZRJdChJFeHBvcnRDb252ZXJzYXRpb24SIi5jaGF0LnYxLkV4cG9ydENvbnZlcnNhdGlvblJlcXVlc3QaIy5jaGF0LnYxLkV4cG9ydENvbnZlcnNhdGlvblJlc3BvbnNlEmkKFkV4cG9ydEFsbENvbnZlcnNhdGlvbnMSJi5jaGF0LnYxLkV4cG9ydEFsbENvbnZlcnNhdGlvbnNSZXF1ZXN0GicuY2hhdC52MS5FeHBvcnRBbGxDb252ZXJzYXRpb25zUmVzcG9uc2USXQoSSW1wb3J0Q29udmVyc2F0aW9uEiIuY2hhdC52MS5JbXBvcnRDb252ZXJzYXRpb25SZXF1ZXN0GiMuY2hhdC52MS5JbXBvcnRDb252ZXJzYXRpb25SZXNwb25zZRJaChFTaGFyZUNvbnZlcnNhdGlvbhIhLmNoYXQudjEuU2hhcmVDb252ZXJzYXRpb25SZXF1ZXN0GiIuY2hhdC52MS5TaGFyZUNvbnZlcnNhdGlvblJlc3BvbnNlEkUKCkxpc3RTaGFyZXMSGi5jaGF0LnYxLkxpc3RTaGFyZXNSZXF1ZXN0GhsuY2hhdC52MS5MaXN0U2hhcmVzUmVzcG9uc2USSAoLUmV2b2tlU2hhcmUSGy5jaGF0LnYxLlJldm9rZVNoYXJlUmVxdWVzdBocLmNoYXQudjEuUmV2b2tlU2hhcmVSZXNwb25zZRJXChBVcGxvYWRBdHRhY2htZW50EiAuY2hhdC52MS5VcGxvYWRBdHRhY2htZW50UmVxdWVzdBohLmNoYXQudjEuVXBsb2FkQXR0YWNobWVudFJlc3BvbnNlEk4KDUdldEF0dGFjaG1lbnQSHS5jaGF0LnYxLkdldEF0dGFjaG1lbnRSZXF1ZXN0Gh4uY2hhdC52MS5HZXRBdHRhY2htZW50UmVzcG9uc2USSAoLR2V0U2V0dGluZ3MSGy5jaGF0LnYxLkdldFNldHRpbmdzUmVxdWVzdBocLmNoYXQudjEuR2V0U2V0dGluZ3NSZXNwb25zZRJRCg5VcGRhdGVTZXR0aW5ncxIeLmNoYXQudjEuVXBkYXRlU2V0dGluZ3NSZXF1ZXN0Gh8uY2hhdC52MS5VcGRhdGVTZXR0aW5nc1Jlc3BvbnNlEnsKHFVwZGF0ZUNvbnZlcnNhdGlvblBhcmFtZXRlcnMSLC5jaGF0LnYxLlVwZGF0ZUNvbnZlcnNhdGlvblBhcmFtZXRlcnNSZXF1ZXN0Gi0uY2hhdC52MS5VcGRhdGVDb252ZXJzYXRpb25QYXJhbWV0ZXJzUmVzcG9uc2USgQEKHlVwZGF0ZUNvbnZlcnNhdGlvblN5c3RlbVByb21wdBIuLmNoYXQudjEuVXBkYXRlQ29udmVyc2F0aW9uU3lzdGVtUHJvbXB0UmVxdWVzdBovLmNoYXQudjEuVXBkYXRlQ29udmVyc2F0aW9uU3lzdGVtUHJvbXB0UmVzcG9uc2USSwoMTGlzdFBlcnNvbmFzEhwuY2hhdC52MS5MaXN0UGVyc29uYXNSZXF1ZXN0Gh0uY2hhdC52MS5MaXN0UGVyc29uYXNSZXNwb25zZRJOCg1DcmVhdGVQZXJzb25hEh0uY2hhdC52MS5DcmVhdGVQZXJzb25hUmVxdWVzdBoeLmNoYXQudjEuQ3JlYXRlUGVyc29uYVJlc3BvbnNlEk4KDVVwZGF0ZVBlcnNvbmESHS5jaGF0LnYxLlVwZGF0ZVBlcnNvbmFSZXF1ZXN0Gh4uY2hhdC52MS5VcGRhdGVQZXJzb25hUmVzcG9uc2USTgoNRGVsZXRlUGVyc29uYRIdLmNoYXQudjEuRGVsZXRlUGVyc29uYVJlcXVlc3QaHi5jaGF0LnYxLkRlbGV0ZVBlcnNvbmFSZXNwb25zZRJLCgxMaXN0TWVtb3JpZXMSHC5jaGF0LnYxLkxpc3RNZW1vcmllc1JlcXVlc3QaHS5jaGF0LnYxLkxpc3RNZW1vcmllc1Jlc3BvbnNlEkIKCUFkZE1lbW9yeRIZLmNoYXQudjEuQWRkTWVtb3J5UmVxdWVzdBoaLmNoYXQudjEuQWRkTWVtb3J5UmVzcG9uc2USSwoMRGVsZXRlTWVtb3J5EhwuY2hhdC52MS5EZWxldGVNZW1vcnlSZXF1ZXN0Gh0uY2hhdC52MS5EZWxldGVNZW1vcnlSZXNwb25zZRJRCg5VcGxvYWREb2N1bWVudBIeLmNoYXQudjEuVXBsb2FkRG9jdW1lbnRSZXF1ZXN0Gh8uY2hhdC52MS5VcGxvYWREb2N1bWVudFJlc3BvbnNlEk4KDUxpc3REb2N1bWVudHMSHS5jaGF0LnYxLkxpc3REb2N1bWVudHNSZXF1ZXN0Gh4uY2hhdC52MS5MaXN0RG9jdW1lbnRzUmVzcG9uc2USUQoORGVsZXRlRG9jdW1lbnQSHi5jaGF0LnYxLkRlbGV0ZURvY3VtZW50UmVxdWVzdBofLmNoYXQudjEuRGVsZXRlRG9jdW1lbnRSZXNwb25zZRI+CgpTdHJlYW1DaGF0EhouY2hhdC52MS5TdHJlYW1DaGF0UmVxdWVzdBoSLmNoYXQudjEuQ2hhdEV2ZW50MAESPgoKUmVnZW5lcmF0ZRIaLmNoYXQudjEuUmVnZW5lcmF0ZVJlcXVlc3QaEi5jaGF0LnYxLkNoYXRFdmVudDABEjoKCENvbnRpbnVlEhguY2hhdC52MS5Db250aW51ZVJlcXVlc3QaEi5jaGF0LnYxLkNoYXRFdmVudDABEkQKCVN0cmVhbVRUUxIZLmNoYXQudjEuU3RyZWFtVFRTUmVxdWVzdBoaLmNoYXQudjEuU3RyZWFtVFRTUmVzcG9uc2UwARJLCgxTcGVlY2hUb1RleHQSHC5jaGF0LnYxLlNwZWVjaFRvVGV4dFJlcXVlc3QaHS5jaGF0LnYxLlNwZWVjaFRvVGV4dFJlc3BvbnNlEj8KCEdldFVzYWdlEhguY2hhdC52MS5HZXRVc2FnZVJlcXVlc3QaGS5jaGF0LnYxLkdldFVzYWdlUmVzcG9uc2USVAoPTGlzdEdlbmVyYXRpb25zEh8uY2hhdC52MS5MaXN0R2VuZXJhdGlvbnNSZXF1ZXN0GiAuY2hhdC52MS5MaXN0R2VuZXJhdGlvbnNSZXNwb25zZRJaChFBbm9ueW1vdXNSZWdpc3RlchIhLmNoYXQudjEuQW5vbnltb3VzUmVnaXN0ZXJSZXF1ZXN0GiIuY2hhdC52MS5Bbm9ueW1vdXNSZWdpc3RlclJlc3BvbnNlEj8KCFJlZ2lzdGVyEhguY2hhdC52MS5SZWdpc3RlclJlcXVlc3QaGS5jaGF0LnYxLlJlZ2lzdGVyUmVzcG9uc2USNgoFTG9naW4SFS5jaGF0LnYxLkxvZ2luUmVxdWVzdBoWLmNoYXQudjEuTG9naW5SZXNwb25zZRJaChFDcmVhdGVQYWlyaW5nQ29kZRIhLmNoYXQudjEuQ3JlYXRlUGFpcmluZ0NvZGVSZXF1ZXN0GiIuY2hhdC52MS5DcmVhdGVQYWlyaW5nQ29kZVJlc3BvbnNlEloKEVJlZGVlbVBhaXJpbmdDb2RlEiEuY2hhdC52MS5SZWRlZW1QYWlyaW5nQ29kZVJlcXVlc3QaIi5jaGF0LnYxLlJlZGVlbVBhaXJpbmdDb2RlUmVzcG9uc2ViBnByb3RvMw");
 
 /**
  * @generated from message chat.v1.Model
@@ -30,6 +30,45 @@ export type Model = Message$1<"chat.v1.Model"> & {
    * @generated from field: string description = 3;
    */
   description: string;
+
+  /**
+   * @generated from field: chat.v1.ModelTask task = 4;
+   */
+  task: ModelTask;
+
+  /**
+   * Zero for models that don't take text prompts.
+   *
+   * @generated from field: int32 context_window = 5;
+   */
+  contextWindow: number;
+
+  /**
+   * @generated from field: bool function_calling = 6;
+   */
+  functionCalling: boolean;
+
+  /**
+   * @generated from field: bool vision = 7;
+   */
+  vision: boolean;
+
+  /**
+   * @generated from field: bool reasoning = 8;
+   */
+  reasoning: boolean;
+
+  /**
+   * Unspecified for models not priced per token.
+   *
+   * @generated from field: chat.v1.PricingTier pricing_tier = 9;
+   */
+  pricingTier: PricingTier;
+
+  /**
+   * @generated from field: bool beta = 10;
+   */
+  beta: boolean;
 };
 
 /**
@@ -43,6 +82,12 @@ export const ModelSchema: GenMessage<Model> = /*@__PURE__*/
  * @generated from message chat.v1.ListModelsRequest
  */
 export type ListModelsRequest = Message$1<"chat.v1.ListModelsRequest"> & {
+  /**
+   * Defaults to text generation.
+   *
+   * @generated from field: chat.v1.ModelTask task = 1;
+   */
+  task: ModelTask;
 };
 
 /**
@@ -69,6 +114,43 @@ export type ListModelsResponse = Message$1<"chat.v1.ListModelsResponse"> & {
 export const ListModelsResponseSchema: GenMessage<ListModelsResponse> = /*@__PURE__*/
   messageDesc(file_chat_v1_chat, 2);
 
+/**
+ * Unset fields fall through to the conversation, then the user's settings,
+ * then the server defaults.
+ *
+ * @generated from message chat.v1.GenerationParameters
+ */
+export type GenerationParameters = Message$1<"chat.v1.GenerationParameters"> & {
+  /**
+   * @generated from field: optional double temperature = 1;
+   */
+  temperature?: number;
+
+  /**
+   * @generated from field: optional double top_p = 2;
+   */
+  topP?: number;
+
+  /**
+   * @generated from field: optional int32 max_completion_tokens = 3;
+   */
+  maxCompletionTokens?: number;
+
+  /**
+   * "low", "medium" or "high"; only reasoning models take it.
+   *
+   * @generated from field: optional string reasoning_effort = 4;
+   */
+  reasoningEffort?: string;
+};
+
+/**
+ * Describes the message chat.v1.GenerationParameters.
+ * Use `create(GenerationParametersSchema)` to create a new message.
+ */
+export const GenerationParametersSchema: GenMessage<GenerationParameters> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 3);
+
 /**
  * @generated from message chat.v1.Conversation
  */
@@ -97,6 +179,28 @@ export type Conversation = Message$1<"chat.v1.Conversation"> & {
    * @generated from field: string updated_at = 5;
    */
   updatedAt: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 6;
+   */
+  parameters?: GenerationParameters;
+
+  /**
+   * @generated from field: string system_prompt = 7;
+   */
+  systemPrompt: string;
+
+  /**
+   * @generated from field: string persona_id = 8;
+   */
+  personaId: string;
+
+  /**
+   * Used when a request doesn't name a model.
+   *
+   * @generated from field: string model = 9;
+   */
+  model: string;
 };
 
 /**
@@ -104,12 +208,23 @@ export type Conversation = Message$1<"chat.v1.Conversation"> & {
  * Use `create(ConversationSchema)` to create a new message.
  */
 export const ConversationSchema: GenMessage<Conversation> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 3);
+  messageDesc(file_chat_v1_chat, 4);
 
 /**
  * @generated from message chat.v1.ListConversationsRequest
  */
 export type ListConversationsRequest = Message$1<"chat.v1.ListConversationsRequest"> & {
+  /**
+   * Unset returns every conversation in one page. At most 100.
+   *
+   * @generated from field: int32 page_size = 1;
+   */
+  pageSize: number;
+
+  /**
+   * @generated from field: string page_token = 2;
+   */
+  pageToken: string;
 };
 
 /**
@@ -117,7 +232,7 @@ export type ListConversationsRequest = Message$1<"chat.v1.ListConversationsReque
  * Use `create(ListConversationsRequestSchema)` to create a new message.
  */
 export const ListConversationsRequestSchema: GenMessage<ListConversationsRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 4);
+  messageDesc(file_chat_v1_chat, 5);
 
 /**
  * @generated from message chat.v1.ListConversationsResponse
@@ -127,6 +242,11 @@ export type ListConversationsResponse = Message$1<"chat.v1.ListConversationsResp
    * @generated from field: repeated chat.v1.Conversation conversations = 1;
    */
   conversations: Conversation[];
+
+  /**
+   * @generated from field: string next_page_token = 2;
+   */
+  nextPageToken: string;
 };
 
 /**
@@ -134,12 +254,25 @@ export type ListConversationsResponse = Message$1<"chat.v1.ListConversationsResp
  * Use `create(ListConversationsResponseSchema)` to create a new message.
  */
 export const ListConversationsResponseSchema: GenMessage<ListConversationsResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 5);
+  messageDesc(file_chat_v1_chat, 6);
 
 /**
  * @generated from message chat.v1.CreateConversationRequest
  */
 export type CreateConversationRequest = Message$1<"chat.v1.CreateConversationRequest"> & {
+  /**
+   * Copies the persona's system prompt, model and parameters.
+   *
+   * @generated from field: string persona_id = 1;
+   */
+  personaId: string;
+
+  /**
+   * Overrides the persona's system prompt.
+   *
+   * @generated from field: string system_prompt = 2;
+   */
+  systemPrompt: string;
 };
 
 /**
@@ -147,7 +280,7 @@ export type CreateConversationRequest = Message$1<"chat.v1.CreateConversationReq
  * Use `create(CreateConversationRequestSchema)` to create a new message.
  */
 export const CreateConversationRequestSchema: GenMessage<CreateConversationRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 6);
+  messageDesc(file_chat_v1_chat, 7);
 
 /**
  * @generated from message chat.v1.CreateConversationResponse
@@ -164,7 +297,7 @@ export type CreateConversationResponse = Message$1<"chat.v1.CreateConversationRe
  * Use `create(CreateConversationResponseSchema)` to create a new message.
  */
 export const CreateConversationResponseSchema: GenMessage<CreateConversationResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 7);
+  messageDesc(file_chat_v1_chat, 8);
 
 /**
  * @generated from message chat.v1.DeleteConversationRequest
@@ -181,7 +314,7 @@ export type DeleteConversationRequest = Message$1<"chat.v1.DeleteConversationReq
  * Use `create(DeleteConversationRequestSchema)` to create a new message.
  */
 export const DeleteConversationRequestSchema: GenMessage<DeleteConversationRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 8);
+  messageDesc(file_chat_v1_chat, 9);
 
 /**
  * @generated from message chat.v1.DeleteConversationResponse
@@ -194,7 +327,7 @@ export type DeleteConversationResponse = Message$1<"chat.v1.DeleteConversationRe
  * Use `create(DeleteConversationResponseSchema)` to create a new message.
  */
 export const DeleteConversationResponseSchema: GenMessage<DeleteConversationResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 9);
+  messageDesc(file_chat_v1_chat, 10);
 
 /**
  * @generated from message chat.v1.RenameConversationRequest
@@ -216,7 +349,7 @@ export type RenameConversationRequest = Message$1<"chat.v1.RenameConversationReq
  * Use `create(RenameConversationRequestSchema)` to create a new message.
  */
 export const RenameConversationRequestSchema: GenMessage<RenameConversationRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 10);
+  messageDesc(file_chat_v1_chat, 11);
 
 /**
  * @generated from message chat.v1.RenameConversationResponse
@@ -229,7 +362,7 @@ export type RenameConversationResponse = Message$1<"chat.v1.RenameConversationRe
  * Use `create(RenameConversationResponseSchema)` to create a new message.
  */
 export const RenameConversationResponseSchema: GenMessage<RenameConversationResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 11);
+  messageDesc(file_chat_v1_chat, 12);
 
 /**
  * @generated from message chat.v1.PinConversationRequest
@@ -246,7 +379,7 @@ export type PinConversationRequest = Message$1<"chat.v1.PinConversationRequest">
  * Use `create(PinConversationRequestSchema)` to create a new message.
  */
 export const PinConversationRequestSchema: GenMessage<PinConversationRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 12);
+  messageDesc(file_chat_v1_chat, 13);
 
 /**
  * @generated from message chat.v1.PinConversationResponse
@@ -259,7 +392,87 @@ export type PinConversationResponse = Message$1<"chat.v1.PinConversationResponse
  * Use `create(PinConversationResponseSchema)` to create a new message.
  */
 export const PinConversationResponseSchema: GenMessage<PinConversationResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 13);
+  messageDesc(file_chat_v1_chat, 14);
+
+/**
+ * @generated from message chat.v1.UpdateConversationParametersRequest
+ */
+export type UpdateConversationParametersRequest = Message$1<"chat.v1.UpdateConversationParametersRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 2;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.UpdateConversationParametersRequest.
+ * Use `create(UpdateConversationParametersRequestSchema)` to create a new message.
+ */
+export const UpdateConversationParametersRequestSchema: GenMessage<UpdateConversationParametersRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 15);
+
+/**
+ * @generated from message chat.v1.UpdateConversationParametersResponse
+ */
+export type UpdateConversationParametersResponse = Message$1<"chat.v1.UpdateConversationParametersResponse"> & {
+  /**
+   * @generated from field: chat.v1.Conversation conversation = 1;
+   */
+  conversation?: Conversation;
+};
+
+/**
+ * Describes the message chat.v1.UpdateConversationParametersResponse.
+ * Use `create(UpdateConversationParametersResponseSchema)` to create a new message.
+ */
+export const UpdateConversationParametersResponseSchema: GenMessage<UpdateConversationParametersResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 16);
+
+/**
+ * @generated from message chat.v1.UpdateConversationSystemPromptRequest
+ */
+export type UpdateConversationSystemPromptRequest = Message$1<"chat.v1.UpdateConversationSystemPromptRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * Empty removes the system prompt.
+   *
+   * @generated from field: string system_prompt = 2;
+   */
+  systemPrompt: string;
+};
+
+/**
+ * Describes the message chat.v1.UpdateConversationSystemPromptRequest.
+ * Use `create(UpdateConversationSystemPromptRequestSchema)` to create a new message.
+ */
+export const UpdateConversationSystemPromptRequestSchema: GenMessage<UpdateConversationSystemPromptRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 17);
+
+/**
+ * @generated from message chat.v1.UpdateConversationSystemPromptResponse
+ */
+export type UpdateConversationSystemPromptResponse = Message$1<"chat.v1.UpdateConversationSystemPromptResponse"> & {
+  /**
+   * @generated from field: chat.v1.Conversation conversation = 1;
+   */
+  conversation?: Conversation;
+};
+
+/**
+ * Describes the message chat.v1.UpdateConversationSystemPromptResponse.
+ * Use `create(UpdateConversationSystemPromptResponseSchema)` to create a new message.
+ */
+export const UpdateConversationSystemPromptResponseSchema: GenMessage<UpdateConversationSystemPromptResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 18);
 
 /**
  * @generated from message chat.v1.UnpinConversationRequest
@@ -276,7 +489,7 @@ export type UnpinConversationRequest = Message$1<"chat.v1.UnpinConversationReque
  * Use `create(UnpinConversationRequestSchema)` to create a new message.
  */
 export const UnpinConversationRequestSchema: GenMessage<UnpinConversationRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 14);
+  messageDesc(file_chat_v1_chat, 19);
 
 /**
  * @generated from message chat.v1.UnpinConversationResponse
@@ -289,7 +502,114 @@ export type UnpinConversationResponse = Message$1<"chat.v1.UnpinConversationResp
  * Use `create(UnpinConversationResponseSchema)` to create a new message.
  */
 export const UnpinConversationResponseSchema: GenMessage<UnpinConversationResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 15);
+  messageDesc(file_chat_v1_chat, 20);
+
+/**
+ * @generated from message chat.v1.ToolCall
+ */
+export type ToolCall = Message$1<"chat.v1.ToolCall"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string arguments = 3;
+   */
+  arguments: string;
+};
+
+/**
+ * Describes the message chat.v1.ToolCall.
+ * Use `create(ToolCallSchema)` to create a new message.
+ */
+export const ToolCallSchema: GenMessage<ToolCall> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 21);
+
+/**
+ * @generated from message chat.v1.ContentPart
+ */
+export type ContentPart = Message$1<"chat.v1.ContentPart"> & {
+  /**
+   * @generated from oneof chat.v1.ContentPart.part
+   */
+  part: {
+    /**
+     * @generated from field: string text = 1;
+     */
+    value: string;
+    case: "text";
+  } | {
+    /**
+     * @generated from field: string attachment_id = 2;
+     */
+    value: string;
+    case: "attachmentId";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message chat.v1.ContentPart.
+ * Use `create(ContentPartSchema)` to create a new message.
+ */
+export const ContentPartSchema: GenMessage<ContentPart> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 22);
+
+/**
+ * How an assistant message was generated.
+ *
+ * @generated from message chat.v1.GenerationMetadata
+ */
+export type GenerationMetadata = Message$1<"chat.v1.GenerationMetadata"> & {
+  /**
+   * @generated from field: string model = 1;
+   */
+  model: string;
+
+  /**
+   * @generated from field: int32 prompt_tokens = 2;
+   */
+  promptTokens: number;
+
+  /**
+   * @generated from field: int32 completion_tokens = 3;
+   */
+  completionTokens: number;
+
+  /**
+   * Unset when nothing was streamed.
+   *
+   * @generated from field: optional int32 time_to_first_token_ms = 4;
+   */
+  timeToFirstTokenMs?: number;
+
+  /**
+   * @generated from field: int32 latency_ms = 5;
+   */
+  latencyMs: number;
+
+  /**
+   * @generated from field: string finish_reason = 6;
+   */
+  finishReason: string;
+
+  /**
+   * @generated from field: chat.v1.MessageStatus status = 7;
+   */
+  status: MessageStatus;
+};
+
+/**
+ * Describes the message chat.v1.GenerationMetadata.
+ * Use `create(GenerationMetadataSchema)` to create a new message.
+ */
+export const GenerationMetadataSchema: GenMessage<GenerationMetadata> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 23);
 
 /**
  * @generated from message chat.v1.Message
@@ -319,6 +639,43 @@ export type Message = Message$1<"chat.v1.Message"> & {
    * @generated from field: string created_at = 5;
    */
   createdAt: string;
+
+  /**
+   * @generated from field: repeated chat.v1.ToolCall tool_calls = 6;
+   */
+  toolCalls: ToolCall[];
+
+  /**
+   * @generated from field: string tool_call_id = 7;
+   */
+  toolCallId: string;
+
+  /**
+   * @generated from field: string parent_id = 8;
+   */
+  parentId: string;
+
+  /**
+   * @generated from field: int32 sibling_count = 9;
+   */
+  siblingCount: number;
+
+  /**
+   * @generated from field: int32 sibling_index = 10;
+   */
+  siblingIndex: number;
+
+  /**
+   * @generated from field: repeated chat.v1.ContentPart parts = 11;
+   */
+  parts: ContentPart[];
+
+  /**
+   * Set on assistant messages only.
+   *
+   * @generated from field: chat.v1.GenerationMetadata metadata = 12;
+   */
+  metadata?: GenerationMetadata;
 };
 
 /**
@@ -326,7 +683,7 @@ export type Message = Message$1<"chat.v1.Message"> & {
  * Use `create(MessageSchema)` to create a new message.
  */
 export const MessageSchema: GenMessage<Message> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 16);
+  messageDesc(file_chat_v1_chat, 24);
 
 /**
  * @generated from message chat.v1.ListMessagesRequest
@@ -336,6 +693,23 @@ export type ListMessagesRequest = Message$1<"chat.v1.ListMessagesRequest"> & {
    * @generated from field: string conversation_id = 1;
    */
   conversationId: string;
+
+  /**
+   * @generated from field: bool include_all_branches = 2;
+   */
+  includeAllBranches: boolean;
+
+  /**
+   * Unset returns every message in one page. At most 100.
+   *
+   * @generated from field: int32 page_size = 3;
+   */
+  pageSize: number;
+
+  /**
+   * @generated from field: string page_token = 4;
+   */
+  pageToken: string;
 };
 
 /**
@@ -343,7 +717,7 @@ export type ListMessagesRequest = Message$1<"chat.v1.ListMessagesRequest"> & {
  * Use `create(ListMessagesRequestSchema)` to create a new message.
  */
 export const ListMessagesRequestSchema: GenMessage<ListMessagesRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 17);
+  messageDesc(file_chat_v1_chat, 25);
 
 /**
  * @generated from message chat.v1.ListMessagesResponse
@@ -353,6 +727,11 @@ export type ListMessagesResponse = Message$1<"chat.v1.ListMessagesResponse"> & {
    * @generated from field: repeated chat.v1.Message messages = 1;
    */
   messages: Message[];
+
+  /**
+   * @generated from field: string next_page_token = 2;
+   */
+  nextPageToken: string;
 };
 
 /**
@@ -360,105 +739,2113 @@ export type ListMessagesResponse = Message$1<"chat.v1.ListMessagesResponse"> & {
  * Use `create(ListMessagesResponseSchema)` to create a new message.
  */
 export const ListMessagesResponseSchema: GenMessage<ListMessagesResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 18);
+  messageDesc(file_chat_v1_chat, 26);
 
 /**
- * @generated from message chat.v1.StreamTTSRequest
+ * @generated from message chat.v1.ListMessageVersionsRequest
  */
-export type StreamTTSRequest = Message$1<"chat.v1.StreamTTSRequest"> & {
+export type ListMessageVersionsRequest = Message$1<"chat.v1.ListMessageVersionsRequest"> & {
   /**
-   * @generated from field: string text = 1;
+   * @generated from field: string conversation_id = 1;
    */
-  text: string;
+  conversationId: string;
+
+  /**
+   * @generated from field: string message_id = 2;
+   */
+  messageId: string;
 };
 
 /**
- * Describes the message chat.v1.StreamTTSRequest.
- * Use `create(StreamTTSRequestSchema)` to create a new message.
+ * Describes the message chat.v1.ListMessageVersionsRequest.
+ * Use `create(ListMessageVersionsRequestSchema)` to create a new message.
  */
-export const StreamTTSRequestSchema: GenMessage<StreamTTSRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 19);
+export const ListMessageVersionsRequestSchema: GenMessage<ListMessageVersionsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 27);
 
 /**
- * @generated from message chat.v1.StreamTTSResponse
+ * @generated from message chat.v1.ListMessageVersionsResponse
+ */
+export type ListMessageVersionsResponse = Message$1<"chat.v1.ListMessageVersionsResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Message versions = 1;
+   */
+  versions: Message[];
+
+  /**
+   * @generated from field: int32 active_index = 2;
+   */
+  activeIndex: number;
+};
+
+/**
+ * Describes the message chat.v1.ListMessageVersionsResponse.
+ * Use `create(ListMessageVersionsResponseSchema)` to create a new message.
+ */
+export const ListMessageVersionsResponseSchema: GenMessage<ListMessageVersionsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 28);
+
+/**
+ * @generated from message chat.v1.SwitchMessageVersionRequest
+ */
+export type SwitchMessageVersionRequest = Message$1<"chat.v1.SwitchMessageVersionRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string message_id = 2;
+   */
+  messageId: string;
+};
+
+/**
+ * Describes the message chat.v1.SwitchMessageVersionRequest.
+ * Use `create(SwitchMessageVersionRequestSchema)` to create a new message.
+ */
+export const SwitchMessageVersionRequestSchema: GenMessage<SwitchMessageVersionRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 29);
+
+/**
+ * @generated from message chat.v1.SwitchMessageVersionResponse
+ */
+export type SwitchMessageVersionResponse = Message$1<"chat.v1.SwitchMessageVersionResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Message messages = 1;
+   */
+  messages: Message[];
+};
+
+/**
+ * Describes the message chat.v1.SwitchMessageVersionResponse.
+ * Use `create(SwitchMessageVersionResponseSchema)` to create a new message.
+ */
+export const SwitchMessageVersionResponseSchema: GenMessage<SwitchMessageVersionResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 30);
+
+/**
+ * @generated from message chat.v1.SearchMessagesRequest
+ */
+export type SearchMessagesRequest = Message$1<"chat.v1.SearchMessagesRequest"> & {
+  /**
+   * @generated from field: string query = 1;
+   */
+  query: string;
+
+  /**
+   * Defaults to 20. At most 100.
+   *
+   * @generated from field: int32 page_size = 2;
+   */
+  pageSize: number;
+
+  /**
+   * @generated from field: string page_token = 3;
+   */
+  pageToken: string;
+};
+
+/**
+ * Describes the message chat.v1.SearchMessagesRequest.
+ * Use `create(SearchMessagesRequestSchema)` to create a new message.
+ */
+export const SearchMessagesRequestSchema: GenMessage<SearchMessagesRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 31);
+
+/**
+ * @generated from message chat.v1.SearchResult
+ */
+export type SearchResult = Message$1<"chat.v1.SearchResult"> & {
+  /**
+   * @generated from field: string message_id = 1;
+   */
+  messageId: string;
+
+  /**
+   * @generated from field: string conversation_id = 2;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string conversation_title = 3;
+   */
+  conversationTitle: string;
+
+  /**
+   * @generated from field: string role = 4;
+   */
+  role: string;
+
+  /**
+   * @generated from field: string snippet = 5;
+   */
+  snippet: string;
+
+  /**
+   * @generated from field: string created_at = 6;
+   */
+  createdAt: string;
+};
+
+/**
+ * Describes the message chat.v1.SearchResult.
+ * Use `create(SearchResultSchema)` to create a new message.
+ */
+export const SearchResultSchema: GenMessage<SearchResult> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 32);
+
+/**
+ * @generated from message chat.v1.SearchMessagesResponse
+ */
+export type SearchMessagesResponse = Message$1<"chat.v1.SearchMessagesResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.SearchResult results = 1;
+   */
+  results: SearchResult[];
+
+  /**
+   * @generated from field: string next_page_token = 2;
+   */
+  nextPageToken: string;
+};
+
+/**
+ * Describes the message chat.v1.SearchMessagesResponse.
+ * Use `create(SearchMessagesResponseSchema)` to create a new message.
+ */
+export const SearchMessagesResponseSchema: GenMessage<SearchMessagesResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 33);
+
+/**
+ * @generated from message chat.v1.ExportConversationRequest
+ */
+export type ExportConversationRequest = Message$1<"chat.v1.ExportConversationRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: chat.v1.ExportFormat format = 2;
+   */
+  format: ExportFormat;
+};
+
+/**
+ * Describes the message chat.v1.ExportConversationRequest.
+ * Use `create(ExportConversationRequestSchema)` to create a new message.
+ */
+export const ExportConversationRequestSchema: GenMessage<ExportConversationRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 34);
+
+/**
+ * @generated from message chat.v1.ExportConversationResponse
+ */
+export type ExportConversationResponse = Message$1<"chat.v1.ExportConversationResponse"> & {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content: string;
+
+  /**
+   * @generated from field: string mime_type = 2;
+   */
+  mimeType: string;
+
+  /**
+   * @generated from field: string filename = 3;
+   */
+  filename: string;
+};
+
+/**
+ * Describes the message chat.v1.ExportConversationResponse.
+ * Use `create(ExportConversationResponseSchema)` to create a new message.
+ */
+export const ExportConversationResponseSchema: GenMessage<ExportConversationResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 35);
+
+/**
+ * @generated from message chat.v1.ExportAllConversationsRequest
+ */
+export type ExportAllConversationsRequest = Message$1<"chat.v1.ExportAllConversationsRequest"> & {
+  /**
+   * @generated from field: chat.v1.ExportFormat format = 1;
+   */
+  format: ExportFormat;
+};
+
+/**
+ * Describes the message chat.v1.ExportAllConversationsRequest.
+ * Use `create(ExportAllConversationsRequestSchema)` to create a new message.
+ */
+export const ExportAllConversationsRequestSchema: GenMessage<ExportAllConversationsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 36);
+
+/**
+ * @generated from message chat.v1.ExportAllConversationsResponse
+ */
+export type ExportAllConversationsResponse = Message$1<"chat.v1.ExportAllConversationsResponse"> & {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content: string;
+
+  /**
+   * @generated from field: string mime_type = 2;
+   */
+  mimeType: string;
+
+  /**
+   * @generated from field: string filename = 3;
+   */
+  filename: string;
+};
+
+/**
+ * Describes the message chat.v1.ExportAllConversationsResponse.
+ * Use `create(ExportAllConversationsResponseSchema)` to create a new message.
+ */
+export const ExportAllConversationsResponseSchema: GenMessage<ExportAllConversationsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 37);
+
+/**
+ * @generated from message chat.v1.ImportConversationRequest
+ */
+export type ImportConversationRequest = Message$1<"chat.v1.ImportConversationRequest"> & {
+  /**
+   * @generated from field: chat.v1.ExportFormat format = 1;
+   */
+  format: ExportFormat;
+
+  /**
+   * @generated from field: string content = 2;
+   */
+  content: string;
+};
+
+/**
+ * Describes the message chat.v1.ImportConversationRequest.
+ * Use `create(ImportConversationRequestSchema)` to create a new message.
+ */
+export const ImportConversationRequestSchema: GenMessage<ImportConversationRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 38);
+
+/**
+ * @generated from message chat.v1.ImportConversationResponse
+ */
+export type ImportConversationResponse = Message$1<"chat.v1.ImportConversationResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Conversation conversations = 1;
+   */
+  conversations: Conversation[];
+};
+
+/**
+ * Describes the message chat.v1.ImportConversationResponse.
+ * Use `create(ImportConversationResponseSchema)` to create a new message.
+ */
+export const ImportConversationResponseSchema: GenMessage<ImportConversationResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 39);
+
+/**
+ * @generated from message chat.v1.Share
+ */
+export type Share = Message$1<"chat.v1.Share"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string conversation_id = 2;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string created_at = 3;
+   */
+  createdAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Share.
+ * Use `create(ShareSchema)` to create a new message.
+ */
+export const ShareSchema: GenMessage<Share> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 40);
+
+/**
+ * @generated from message chat.v1.ShareConversationRequest
+ */
+export type ShareConversationRequest = Message$1<"chat.v1.ShareConversationRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+};
+
+/**
+ * Describes the message chat.v1.ShareConversationRequest.
+ * Use `create(ShareConversationRequestSchema)` to create a new message.
+ */
+export const ShareConversationRequestSchema: GenMessage<ShareConversationRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 41);
+
+/**
+ * @generated from message chat.v1.ShareConversationResponse
+ */
+export type ShareConversationResponse = Message$1<"chat.v1.ShareConversationResponse"> & {
+  /**
+   * @generated from field: chat.v1.Share share = 1;
+   */
+  share?: Share;
+};
+
+/**
+ * Describes the message chat.v1.ShareConversationResponse.
+ * Use `create(ShareConversationResponseSchema)` to create a new message.
+ */
+export const ShareConversationResponseSchema: GenMessage<ShareConversationResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 42);
+
+/**
+ * @generated from message chat.v1.ListSharesRequest
+ */
+export type ListSharesRequest = Message$1<"chat.v1.ListSharesRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+};
+
+/**
+ * Describes the message chat.v1.ListSharesRequest.
+ * Use `create(ListSharesRequestSchema)` to create a new message.
+ */
+export const ListSharesRequestSchema: GenMessage<ListSharesRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 43);
+
+/**
+ * @generated from message chat.v1.ListSharesResponse
+ */
+export type ListSharesResponse = Message$1<"chat.v1.ListSharesResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Share shares = 1;
+   */
+  shares: Share[];
+};
+
+/**
+ * Describes the message chat.v1.ListSharesResponse.
+ * Use `create(ListSharesResponseSchema)` to create a new message.
+ */
+export const ListSharesResponseSchema: GenMessage<ListSharesResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 44);
+
+/**
+ * @generated from message chat.v1.RevokeShareRequest
+ */
+export type RevokeShareRequest = Message$1<"chat.v1.RevokeShareRequest"> & {
+  /**
+   * @generated from field: string share_id = 1;
+   */
+  shareId: string;
+};
+
+/**
+ * Describes the message chat.v1.RevokeShareRequest.
+ * Use `create(RevokeShareRequestSchema)` to create a new message.
+ */
+export const RevokeShareRequestSchema: GenMessage<RevokeShareRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 45);
+
+/**
+ * @generated from message chat.v1.RevokeShareResponse
+ */
+export type RevokeShareResponse = Message$1<"chat.v1.RevokeShareResponse"> & {
+};
+
+/**
+ * Describes the message chat.v1.RevokeShareResponse.
+ * Use `create(RevokeShareResponseSchema)` to create a new message.
+ */
+export const RevokeShareResponseSchema: GenMessage<RevokeShareResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 46);
+
+/**
+ * @generated from message chat.v1.Attachment
+ */
+export type Attachment = Message$1<"chat.v1.Attachment"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string mime_type = 2;
+   */
+  mimeType: string;
+
+  /**
+   * @generated from field: int32 size = 3;
+   */
+  size: number;
+
+  /**
+   * @generated from field: string created_at = 4;
+   */
+  createdAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Attachment.
+ * Use `create(AttachmentSchema)` to create a new message.
+ */
+export const AttachmentSchema: GenMessage<Attachment> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 47);
+
+/**
+ * @generated from message chat.v1.UploadAttachmentRequest
+ */
+export type UploadAttachmentRequest = Message$1<"chat.v1.UploadAttachmentRequest"> & {
+  /**
+   * @generated from field: bytes data = 1;
+   */
+  data: Uint8Array;
+
+  /**
+   * @generated from field: string mime_type = 2;
+   */
+  mimeType: string;
+};
+
+/**
+ * Describes the message chat.v1.UploadAttachmentRequest.
+ * Use `create(UploadAttachmentRequestSchema)` to create a new message.
+ */
+export const UploadAttachmentRequestSchema: GenMessage<UploadAttachmentRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 48);
+
+/**
+ * @generated from message chat.v1.UploadAttachmentResponse
+ */
+export type UploadAttachmentResponse = Message$1<"chat.v1.UploadAttachmentResponse"> & {
+  /**
+   * @generated from field: chat.v1.Attachment attachment = 1;
+   */
+  attachment?: Attachment;
+};
+
+/**
+ * Describes the message chat.v1.UploadAttachmentResponse.
+ * Use `create(UploadAttachmentResponseSchema)` to create a new message.
+ */
+export const UploadAttachmentResponseSchema: GenMessage<UploadAttachmentResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 49);
+
+/**
+ * @generated from message chat.v1.GetAttachmentRequest
+ */
+export type GetAttachmentRequest = Message$1<"chat.v1.GetAttachmentRequest"> & {
+  /**
+   * @generated from field: string attachment_id = 1;
+   */
+  attachmentId: string;
+};
+
+/**
+ * Describes the message chat.v1.GetAttachmentRequest.
+ * Use `create(GetAttachmentRequestSchema)` to create a new message.
+ */
+export const GetAttachmentRequestSchema: GenMessage<GetAttachmentRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 50);
+
+/**
+ * @generated from message chat.v1.GetAttachmentResponse
+ */
+export type GetAttachmentResponse = Message$1<"chat.v1.GetAttachmentResponse"> & {
+  /**
+   * @generated from field: chat.v1.Attachment attachment = 1;
+   */
+  attachment?: Attachment;
+
+  /**
+   * @generated from field: bytes data = 2;
+   */
+  data: Uint8Array;
+};
+
+/**
+ * Describes the message chat.v1.GetAttachmentResponse.
+ * Use `create(GetAttachmentResponseSchema)` to create a new message.
+ */
+export const GetAttachmentResponseSchema: GenMessage<GetAttachmentResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 51);
+
+/**
+ * @generated from message chat.v1.Settings
+ */
+export type Settings = Message$1<"chat.v1.Settings"> & {
+  /**
+   * Used when a request doesn't name a model.
+   *
+   * @generated from field: string default_model = 1;
+   */
+  defaultModel: string;
+
+  /**
+   * One of the melotts languages: en, es, fr, zh, jp or kr.
+   *
+   * @generated from field: string tts_voice = 2;
+   */
+  ttsVoice: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 3;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.Settings.
+ * Use `create(SettingsSchema)` to create a new message.
+ */
+export const SettingsSchema: GenMessage<Settings> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 52);
+
+/**
+ * @generated from message chat.v1.GetSettingsRequest
+ */
+export type GetSettingsRequest = Message$1<"chat.v1.GetSettingsRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.GetSettingsRequest.
+ * Use `create(GetSettingsRequestSchema)` to create a new message.
+ */
+export const GetSettingsRequestSchema: GenMessage<GetSettingsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 53);
+
+/**
+ * @generated from message chat.v1.GetSettingsResponse
+ */
+export type GetSettingsResponse = Message$1<"chat.v1.GetSettingsResponse"> & {
+  /**
+   * @generated from field: chat.v1.Settings settings = 1;
+   */
+  settings?: Settings;
+};
+
+/**
+ * Describes the message chat.v1.GetSettingsResponse.
+ * Use `create(GetSettingsResponseSchema)` to create a new message.
+ */
+export const GetSettingsResponseSchema: GenMessage<GetSettingsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 54);
+
+/**
+ * Replaces all settings; empty fields go back to the defaults.
+ *
+ * @generated from message chat.v1.UpdateSettingsRequest
+ */
+export type UpdateSettingsRequest = Message$1<"chat.v1.UpdateSettingsRequest"> & {
+  /**
+   * @generated from field: chat.v1.Settings settings = 1;
+   */
+  settings?: Settings;
+};
+
+/**
+ * Describes the message chat.v1.UpdateSettingsRequest.
+ * Use `create(UpdateSettingsRequestSchema)` to create a new message.
+ */
+export const UpdateSettingsRequestSchema: GenMessage<UpdateSettingsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 55);
+
+/**
+ * @generated from message chat.v1.UpdateSettingsResponse
+ */
+export type UpdateSettingsResponse = Message$1<"chat.v1.UpdateSettingsResponse"> & {
+  /**
+   * @generated from field: chat.v1.Settings settings = 1;
+   */
+  settings?: Settings;
+};
+
+/**
+ * Describes the message chat.v1.UpdateSettingsResponse.
+ * Use `create(UpdateSettingsResponseSchema)` to create a new message.
+ */
+export const UpdateSettingsResponseSchema: GenMessage<UpdateSettingsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 56);
+
+/**
+ * @generated from message chat.v1.Persona
+ */
+export type Persona = Message$1<"chat.v1.Persona"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string system_prompt = 3;
+   */
+  systemPrompt: string;
+
+  /**
+   * Empty to use the user's default model.
+   *
+   * @generated from field: string model = 4;
+   */
+  model: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 5;
+   */
+  parameters?: GenerationParameters;
+
+  /**
+   * @generated from field: string created_at = 6;
+   */
+  createdAt: string;
+
+  /**
+   * @generated from field: string updated_at = 7;
+   */
+  updatedAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Persona.
+ * Use `create(PersonaSchema)` to create a new message.
+ */
+export const PersonaSchema: GenMessage<Persona> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 57);
+
+/**
+ * @generated from message chat.v1.ListPersonasRequest
+ */
+export type ListPersonasRequest = Message$1<"chat.v1.ListPersonasRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.ListPersonasRequest.
+ * Use `create(ListPersonasRequestSchema)` to create a new message.
+ */
+export const ListPersonasRequestSchema: GenMessage<ListPersonasRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 58);
+
+/**
+ * @generated from message chat.v1.ListPersonasResponse
+ */
+export type ListPersonasResponse = Message$1<"chat.v1.ListPersonasResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Persona personas = 1;
+   */
+  personas: Persona[];
+};
+
+/**
+ * Describes the message chat.v1.ListPersonasResponse.
+ * Use `create(ListPersonasResponseSchema)` to create a new message.
+ */
+export const ListPersonasResponseSchema: GenMessage<ListPersonasResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 59);
+
+/**
+ * @generated from message chat.v1.CreatePersonaRequest
+ */
+export type CreatePersonaRequest = Message$1<"chat.v1.CreatePersonaRequest"> & {
+  /**
+   * @generated from field: string name = 1;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string system_prompt = 2;
+   */
+  systemPrompt: string;
+
+  /**
+   * @generated from field: string model = 3;
+   */
+  model: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 4;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.CreatePersonaRequest.
+ * Use `create(CreatePersonaRequestSchema)` to create a new message.
+ */
+export const CreatePersonaRequestSchema: GenMessage<CreatePersonaRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 60);
+
+/**
+ * @generated from message chat.v1.CreatePersonaResponse
+ */
+export type CreatePersonaResponse = Message$1<"chat.v1.CreatePersonaResponse"> & {
+  /**
+   * @generated from field: chat.v1.Persona persona = 1;
+   */
+  persona?: Persona;
+};
+
+/**
+ * Describes the message chat.v1.CreatePersonaResponse.
+ * Use `create(CreatePersonaResponseSchema)` to create a new message.
+ */
+export const CreatePersonaResponseSchema: GenMessage<CreatePersonaResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 61);
+
+/**
+ * Replaces every field of the persona.
+ *
+ * @generated from message chat.v1.UpdatePersonaRequest
+ */
+export type UpdatePersonaRequest = Message$1<"chat.v1.UpdatePersonaRequest"> & {
+  /**
+   * @generated from field: string persona_id = 1;
+   */
+  personaId: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string system_prompt = 3;
+   */
+  systemPrompt: string;
+
+  /**
+   * @generated from field: string model = 4;
+   */
+  model: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 5;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.UpdatePersonaRequest.
+ * Use `create(UpdatePersonaRequestSchema)` to create a new message.
+ */
+export const UpdatePersonaRequestSchema: GenMessage<UpdatePersonaRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 62);
+
+/**
+ * @generated from message chat.v1.UpdatePersonaResponse
+ */
+export type UpdatePersonaResponse = Message$1<"chat.v1.UpdatePersonaResponse"> & {
+  /**
+   * @generated from field: chat.v1.Persona persona = 1;
+   */
+  persona?: Persona;
+};
+
+/**
+ * Describes the message chat.v1.UpdatePersonaResponse.
+ * Use `create(UpdatePersonaResponseSchema)` to create a new message.
+ */
+export const UpdatePersonaResponseSchema: GenMessage<UpdatePersonaResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 63);
+
+/**
+ * @generated from message chat.v1.DeletePersonaRequest
+ */
+export type DeletePersonaRequest = Message$1<"chat.v1.DeletePersonaRequest"> & {
+  /**
+   * @generated from field: string persona_id = 1;
+   */
+  personaId: string;
+};
+
+/**
+ * Describes the message chat.v1.DeletePersonaRequest.
+ * Use `create(DeletePersonaRequestSchema)` to create a new message.
+ */
+export const DeletePersonaRequestSchema: GenMessage<DeletePersonaRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 64);
+
+/**
+ * @generated from message chat.v1.DeletePersonaResponse
+ */
+export type DeletePersonaResponse = Message$1<"chat.v1.DeletePersonaResponse"> & {
+};
+
+/**
+ * Describes the message chat.v1.DeletePersonaResponse.
+ * Use `create(DeletePersonaResponseSchema)` to create a new message.
+ */
+export const DeletePersonaResponseSchema: GenMessage<DeletePersonaResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 65);
+
+/**
+ * @generated from message chat.v1.Memory
+ */
+export type Memory = Message$1<"chat.v1.Memory"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string content = 2;
+   */
+  content: string;
+
+  /**
+   * Conversation the fact was learned in; empty when added by the user.
+   *
+   * @generated from field: string conversation_id = 3;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string created_at = 4;
+   */
+  createdAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Memory.
+ * Use `create(MemorySchema)` to create a new message.
+ */
+export const MemorySchema: GenMessage<Memory> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 66);
+
+/**
+ * @generated from message chat.v1.ListMemoriesRequest
+ */
+export type ListMemoriesRequest = Message$1<"chat.v1.ListMemoriesRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.ListMemoriesRequest.
+ * Use `create(ListMemoriesRequestSchema)` to create a new message.
+ */
+export const ListMemoriesRequestSchema: GenMessage<ListMemoriesRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 67);
+
+/**
+ * @generated from message chat.v1.ListMemoriesResponse
+ */
+export type ListMemoriesResponse = Message$1<"chat.v1.ListMemoriesResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Memory memories = 1;
+   */
+  memories: Memory[];
+};
+
+/**
+ * Describes the message chat.v1.ListMemoriesResponse.
+ * Use `create(ListMemoriesResponseSchema)` to create a new message.
+ */
+export const ListMemoriesResponseSchema: GenMessage<ListMemoriesResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 68);
+
+/**
+ * @generated from message chat.v1.AddMemoryRequest
+ */
+export type AddMemoryRequest = Message$1<"chat.v1.AddMemoryRequest"> & {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content: string;
+};
+
+/**
+ * Describes the message chat.v1.AddMemoryRequest.
+ * Use `create(AddMemoryRequestSchema)` to create a new message.
+ */
+export const AddMemoryRequestSchema: GenMessage<AddMemoryRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 69);
+
+/**
+ * @generated from message chat.v1.AddMemoryResponse
+ */
+export type AddMemoryResponse = Message$1<"chat.v1.AddMemoryResponse"> & {
+  /**
+   * @generated from field: chat.v1.Memory memory = 1;
+   */
+  memory?: Memory;
+};
+
+/**
+ * Describes the message chat.v1.AddMemoryResponse.
+ * Use `create(AddMemoryResponseSchema)` to create a new message.
+ */
+export const AddMemoryResponseSchema: GenMessage<AddMemoryResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 70);
+
+/**
+ * @generated from message chat.v1.DeleteMemoryRequest
+ */
+export type DeleteMemoryRequest = Message$1<"chat.v1.DeleteMemoryRequest"> & {
+  /**
+   * @generated from field: string memory_id = 1;
+   */
+  memoryId: string;
+};
+
+/**
+ * Describes the message chat.v1.DeleteMemoryRequest.
+ * Use `create(DeleteMemoryRequestSchema)` to create a new message.
+ */
+export const DeleteMemoryRequestSchema: GenMessage<DeleteMemoryRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 71);
+
+/**
+ * @generated from message chat.v1.DeleteMemoryResponse
+ */
+export type DeleteMemoryResponse = Message$1<"chat.v1.DeleteMemoryResponse"> & {
+};
+
+/**
+ * Describes the message chat.v1.DeleteMemoryResponse.
+ * Use `create(DeleteMemoryResponseSchema)` to create a new message.
+ */
+export const DeleteMemoryResponseSchema: GenMessage<DeleteMemoryResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 72);
+
+/**
+ * @generated from message chat.v1.Document
+ */
+export type Document = Message$1<"chat.v1.Document"> & {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id: string;
+
+  /**
+   * @generated from field: string conversation_id = 2;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string name = 3;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string mime_type = 4;
+   */
+  mimeType: string;
+
+  /**
+   * @generated from field: int32 size = 5;
+   */
+  size: number;
+
+  /**
+   * @generated from field: int32 chunk_count = 6;
+   */
+  chunkCount: number;
+
+  /**
+   * @generated from field: string created_at = 7;
+   */
+  createdAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Document.
+ * Use `create(DocumentSchema)` to create a new message.
+ */
+export const DocumentSchema: GenMessage<Document> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 73);
+
+/**
+ * @generated from message chat.v1.UploadDocumentRequest
+ */
+export type UploadDocumentRequest = Message$1<"chat.v1.UploadDocumentRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string mime_type = 3;
+   */
+  mimeType: string;
+
+  /**
+   * @generated from field: bytes data = 4;
+   */
+  data: Uint8Array;
+};
+
+/**
+ * Describes the message chat.v1.UploadDocumentRequest.
+ * Use `create(UploadDocumentRequestSchema)` to create a new message.
+ */
+export const UploadDocumentRequestSchema: GenMessage<UploadDocumentRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 74);
+
+/**
+ * @generated from message chat.v1.UploadDocumentResponse
+ */
+export type UploadDocumentResponse = Message$1<"chat.v1.UploadDocumentResponse"> & {
+  /**
+   * @generated from field: chat.v1.Document document = 1;
+   */
+  document?: Document;
+};
+
+/**
+ * Describes the message chat.v1.UploadDocumentResponse.
+ * Use `create(UploadDocumentResponseSchema)` to create a new message.
+ */
+export const UploadDocumentResponseSchema: GenMessage<UploadDocumentResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 75);
+
+/**
+ * @generated from message chat.v1.ListDocumentsRequest
+ */
+export type ListDocumentsRequest = Message$1<"chat.v1.ListDocumentsRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+};
+
+/**
+ * Describes the message chat.v1.ListDocumentsRequest.
+ * Use `create(ListDocumentsRequestSchema)` to create a new message.
+ */
+export const ListDocumentsRequestSchema: GenMessage<ListDocumentsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 76);
+
+/**
+ * @generated from message chat.v1.ListDocumentsResponse
+ */
+export type ListDocumentsResponse = Message$1<"chat.v1.ListDocumentsResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Document documents = 1;
+   */
+  documents: Document[];
+};
+
+/**
+ * Describes the message chat.v1.ListDocumentsResponse.
+ * Use `create(ListDocumentsResponseSchema)` to create a new message.
+ */
+export const ListDocumentsResponseSchema: GenMessage<ListDocumentsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 77);
+
+/**
+ * @generated from message chat.v1.DeleteDocumentRequest
+ */
+export type DeleteDocumentRequest = Message$1<"chat.v1.DeleteDocumentRequest"> & {
+  /**
+   * @generated from field: string document_id = 1;
+   */
+  documentId: string;
+};
+
+/**
+ * Describes the message chat.v1.DeleteDocumentRequest.
+ * Use `create(DeleteDocumentRequestSchema)` to create a new message.
+ */
+export const DeleteDocumentRequestSchema: GenMessage<DeleteDocumentRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 78);
+
+/**
+ * @generated from message chat.v1.DeleteDocumentResponse
+ */
+export type DeleteDocumentResponse = Message$1<"chat.v1.DeleteDocumentResponse"> & {
+};
+
+/**
+ * Describes the message chat.v1.DeleteDocumentResponse.
+ * Use `create(DeleteDocumentResponseSchema)` to create a new message.
+ */
+export const DeleteDocumentResponseSchema: GenMessage<DeleteDocumentResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 79);
+
+/**
+ * @generated from message chat.v1.ToolDefinition
+ */
+export type ToolDefinition = Message$1<"chat.v1.ToolDefinition"> & {
+  /**
+   * @generated from field: string name = 1;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string description = 2;
+   */
+  description: string;
+
+  /**
+   * JSON Schema of the arguments.
+   *
+   * @generated from field: string parameters_json = 3;
+   */
+  parametersJson: string;
+};
+
+/**
+ * Describes the message chat.v1.ToolDefinition.
+ * Use `create(ToolDefinitionSchema)` to create a new message.
+ */
+export const ToolDefinitionSchema: GenMessage<ToolDefinition> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 80);
+
+/**
+ * @generated from message chat.v1.StreamChatRequest
+ */
+export type StreamChatRequest = Message$1<"chat.v1.StreamChatRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string content = 2;
+   */
+  content: string;
+
+  /**
+   * @generated from field: string model = 3;
+   */
+  model: string;
+
+  /**
+   * @generated from field: repeated chat.v1.ToolDefinition tools = 4;
+   */
+  tools: ToolDefinition[];
+
+  /**
+   * Generated by the server when empty.
+   *
+   * @generated from field: string event_id = 5;
+   */
+  eventId: string;
+
+  /**
+   * Resubmits an edited version of this user message instead of appending.
+   *
+   * @generated from field: string edit_message_id = 6;
+   */
+  editMessageId: string;
+
+  /**
+   * Replaces content when set, e.g. to send images.
+   *
+   * @generated from field: repeated chat.v1.ContentPart parts = 7;
+   */
+  parts: ContentPart[];
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 8;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.StreamChatRequest.
+ * Use `create(StreamChatRequestSchema)` to create a new message.
+ */
+export const StreamChatRequestSchema: GenMessage<StreamChatRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 81);
+
+/**
+ * @generated from message chat.v1.RegenerateRequest
+ */
+export type RegenerateRequest = Message$1<"chat.v1.RegenerateRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string model = 2;
+   */
+  model: string;
+
+  /**
+   * @generated from field: repeated chat.v1.ToolDefinition tools = 3;
+   */
+  tools: ToolDefinition[];
+
+  /**
+   * @generated from field: string event_id = 4;
+   */
+  eventId: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 5;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.RegenerateRequest.
+ * Use `create(RegenerateRequestSchema)` to create a new message.
+ */
+export const RegenerateRequestSchema: GenMessage<RegenerateRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 82);
+
+/**
+ * Appends to a cancelled, truncated or failed assistant message.
+ *
+ * @generated from message chat.v1.ContinueRequest
+ */
+export type ContinueRequest = Message$1<"chat.v1.ContinueRequest"> & {
+  /**
+   * @generated from field: string conversation_id = 1;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string message_id = 2;
+   */
+  messageId: string;
+
+  /**
+   * Defaults to the model that wrote the message.
+   *
+   * @generated from field: string model = 3;
+   */
+  model: string;
+
+  /**
+   * @generated from field: string event_id = 4;
+   */
+  eventId: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationParameters parameters = 5;
+   */
+  parameters?: GenerationParameters;
+};
+
+/**
+ * Describes the message chat.v1.ContinueRequest.
+ * Use `create(ContinueRequestSchema)` to create a new message.
+ */
+export const ContinueRequestSchema: GenMessage<ContinueRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 83);
+
+/**
+ * @generated from message chat.v1.ChatDelta
+ */
+export type ChatDelta = Message$1<"chat.v1.ChatDelta"> & {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content: string;
+};
+
+/**
+ * Describes the message chat.v1.ChatDelta.
+ * Use `create(ChatDeltaSchema)` to create a new message.
+ */
+export const ChatDeltaSchema: GenMessage<ChatDelta> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 84);
+
+/**
+ * @generated from message chat.v1.ChatToolCall
+ */
+export type ChatToolCall = Message$1<"chat.v1.ChatToolCall"> & {
+  /**
+   * @generated from field: string tool_call_id = 1;
+   */
+  toolCallId: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string arguments = 3;
+   */
+  arguments: string;
+};
+
+/**
+ * Describes the message chat.v1.ChatToolCall.
+ * Use `create(ChatToolCallSchema)` to create a new message.
+ */
+export const ChatToolCallSchema: GenMessage<ChatToolCall> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 85);
+
+/**
+ * @generated from message chat.v1.ChatToolResult
+ */
+export type ChatToolResult = Message$1<"chat.v1.ChatToolResult"> & {
+  /**
+   * @generated from field: string tool_call_id = 1;
+   */
+  toolCallId: string;
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string result = 3;
+   */
+  result: string;
+};
+
+/**
+ * Describes the message chat.v1.ChatToolResult.
+ * Use `create(ChatToolResultSchema)` to create a new message.
+ */
+export const ChatToolResultSchema: GenMessage<ChatToolResult> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 86);
+
+/**
+ * @generated from message chat.v1.ChatTitle
+ */
+export type ChatTitle = Message$1<"chat.v1.ChatTitle"> & {
+  /**
+   * @generated from field: string title = 1;
+   */
+  title: string;
+};
+
+/**
+ * Describes the message chat.v1.ChatTitle.
+ * Use `create(ChatTitleSchema)` to create a new message.
+ */
+export const ChatTitleSchema: GenMessage<ChatTitle> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 87);
+
+/**
+ * @generated from message chat.v1.FunctionCall
+ */
+export type FunctionCall = Message$1<"chat.v1.FunctionCall"> & {
+  /**
+   * @generated from field: string name = 1;
+   */
+  name: string;
+
+  /**
+   * @generated from field: string arguments = 2;
+   */
+  arguments: string;
+};
+
+/**
+ * Describes the message chat.v1.FunctionCall.
+ * Use `create(FunctionCallSchema)` to create a new message.
+ */
+export const FunctionCallSchema: GenMessage<FunctionCall> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 88);
+
+/**
+ * @generated from message chat.v1.Citation
+ */
+export type Citation = Message$1<"chat.v1.Citation"> & {
+  /**
+   * The number the answer cites the chunk by, as in [1].
+   *
+   * @generated from field: int32 index = 1;
+   */
+  index: number;
+
+  /**
+   * @generated from field: string document_id = 2;
+   */
+  documentId: string;
+
+  /**
+   * @generated from field: string document_name = 3;
+   */
+  documentName: string;
+
+  /**
+   * @generated from field: string chunk_id = 4;
+   */
+  chunkId: string;
+
+  /**
+   * @generated from field: int32 chunk_index = 5;
+   */
+  chunkIndex: number;
+
+  /**
+   * @generated from field: double score = 6;
+   */
+  score: number;
+};
+
+/**
+ * Describes the message chat.v1.Citation.
+ * Use `create(CitationSchema)` to create a new message.
+ */
+export const CitationSchema: GenMessage<Citation> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 89);
+
+/**
+ * @generated from message chat.v1.ChatDone
+ */
+export type ChatDone = Message$1<"chat.v1.ChatDone"> & {
+  /**
+   * @generated from field: chat.v1.FunctionCall function_call = 1;
+   */
+  functionCall?: FunctionCall;
+
+  /**
+   * @generated from field: repeated chat.v1.Citation citations = 2;
+   */
+  citations: Citation[];
+
+  /**
+   * The final assistant message of the generation.
+   *
+   * @generated from field: string message_id = 3;
+   */
+  messageId: string;
+
+  /**
+   * @generated from field: chat.v1.GenerationMetadata metadata = 4;
+   */
+  metadata?: GenerationMetadata;
+};
+
+/**
+ * Describes the message chat.v1.ChatDone.
+ * Use `create(ChatDoneSchema)` to create a new message.
+ */
+export const ChatDoneSchema: GenMessage<ChatDone> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 90);
+
+/**
+ * @generated from message chat.v1.ChatEvent
+ */
+export type ChatEvent = Message$1<"chat.v1.ChatEvent"> & {
+  /**
+   * @generated from field: string event_id = 1;
+   */
+  eventId: string;
+
+  /**
+   * @generated from field: string conversation_id = 2;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: int32 sequence = 3;
+   */
+  sequence: number;
+
+  /**
+   * @generated from oneof chat.v1.ChatEvent.event
+   */
+  event: {
+    /**
+     * @generated from field: chat.v1.ChatDelta delta = 4;
+     */
+    value: ChatDelta;
+    case: "delta";
+  } | {
+    /**
+     * @generated from field: chat.v1.ChatToolCall tool_call = 5;
+     */
+    value: ChatToolCall;
+    case: "toolCall";
+  } | {
+    /**
+     * @generated from field: chat.v1.ChatToolResult tool_result = 6;
+     */
+    value: ChatToolResult;
+    case: "toolResult";
+  } | {
+    /**
+     * @generated from field: chat.v1.ChatTitle title = 7;
+     */
+    value: ChatTitle;
+    case: "title";
+  } | {
+    /**
+     * @generated from field: chat.v1.ChatDone done = 8;
+     */
+    value: ChatDone;
+    case: "done";
+  } | { case: undefined; value?: undefined };
+};
+
+/**
+ * Describes the message chat.v1.ChatEvent.
+ * Use `create(ChatEventSchema)` to create a new message.
+ */
+export const ChatEventSchema: GenMessage<ChatEvent> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 91);
+
+/**
+ * @generated from message chat.v1.StreamTTSRequest
+ */
+export type StreamTTSRequest = Message$1<"chat.v1.StreamTTSRequest"> & {
+  /**
+   * @generated from field: string text = 1;
+   */
+  text: string;
+
+  /**
+   * Defaults to the user's setting.
+   *
+   * @generated from field: string voice = 2;
+   */
+  voice: string;
+
+  /**
+   * Splits long text with a model instead of by punctuation.
+   *
+   * @generated from field: bool llm_chunking = 3;
+   */
+  llmChunking: boolean;
+};
+
+/**
+ * Describes the message chat.v1.StreamTTSRequest.
+ * Use `create(StreamTTSRequestSchema)` to create a new message.
+ */
+export const StreamTTSRequestSchema: GenMessage<StreamTTSRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 92);
+
+/**
+ * @generated from message chat.v1.StreamTTSResponse
  */
 export type StreamTTSResponse = Message$1<"chat.v1.StreamTTSResponse"> & {
   /**
-   * @generated from field: bytes audio = 1;
+   * @generated from field: bytes audio = 1;
+   */
+  audio: Uint8Array;
+};
+
+/**
+ * Describes the message chat.v1.StreamTTSResponse.
+ * Use `create(StreamTTSResponseSchema)` to create a new message.
+ */
+export const StreamTTSResponseSchema: GenMessage<StreamTTSResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 93);
+
+/**
+ * @generated from message chat.v1.SpeechToTextRequest
+ */
+export type SpeechToTextRequest = Message$1<"chat.v1.SpeechToTextRequest"> & {
+  /**
+   * @generated from field: bytes audio = 1;
+   */
+  audio: Uint8Array;
+};
+
+/**
+ * Describes the message chat.v1.SpeechToTextRequest.
+ * Use `create(SpeechToTextRequestSchema)` to create a new message.
+ */
+export const SpeechToTextRequestSchema: GenMessage<SpeechToTextRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 94);
+
+/**
+ * @generated from message chat.v1.SpeechToTextResponse
+ */
+export type SpeechToTextResponse = Message$1<"chat.v1.SpeechToTextResponse"> & {
+  /**
+   * @generated from field: string text = 1;
+   */
+  text: string;
+};
+
+/**
+ * Describes the message chat.v1.SpeechToTextResponse.
+ * Use `create(SpeechToTextResponseSchema)` to create a new message.
+ */
+export const SpeechToTextResponseSchema: GenMessage<SpeechToTextResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 95);
+
+/**
+ * @generated from message chat.v1.UsageLimits
+ */
+export type UsageLimits = Message$1<"chat.v1.UsageLimits"> & {
+  /**
+   * @generated from field: int32 requests_per_minute = 1;
+   */
+  requestsPerMinute: number;
+
+  /**
+   * @generated from field: int32 requests_per_day = 2;
+   */
+  requestsPerDay: number;
+
+  /**
+   * @generated from field: int32 tokens_per_day = 3;
+   */
+  tokensPerDay: number;
+
+  /**
+   * @generated from field: double audio_seconds_per_day = 4;
+   */
+  audioSecondsPerDay: number;
+};
+
+/**
+ * Describes the message chat.v1.UsageLimits.
+ * Use `create(UsageLimitsSchema)` to create a new message.
+ */
+export const UsageLimitsSchema: GenMessage<UsageLimits> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 96);
+
+/**
+ * @generated from message chat.v1.GetUsageRequest
+ */
+export type GetUsageRequest = Message$1<"chat.v1.GetUsageRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.GetUsageRequest.
+ * Use `create(GetUsageRequestSchema)` to create a new message.
+ */
+export const GetUsageRequestSchema: GenMessage<GetUsageRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 97);
+
+/**
+ * @generated from message chat.v1.GetUsageResponse
+ */
+export type GetUsageResponse = Message$1<"chat.v1.GetUsageResponse"> & {
+  /**
+   * @generated from field: string day = 1;
+   */
+  day: string;
+
+  /**
+   * @generated from field: int32 requests = 2;
+   */
+  requests: number;
+
+  /**
+   * @generated from field: int32 prompt_tokens = 3;
+   */
+  promptTokens: number;
+
+  /**
+   * @generated from field: int32 completion_tokens = 4;
+   */
+  completionTokens: number;
+
+  /**
+   * @generated from field: double audio_seconds = 5;
+   */
+  audioSeconds: number;
+
+  /**
+   * @generated from field: chat.v1.UsageLimits limits = 6;
+   */
+  limits?: UsageLimits;
+};
+
+/**
+ * Describes the message chat.v1.GetUsageResponse.
+ * Use `create(GetUsageResponseSchema)` to create a new message.
+ */
+export const GetUsageResponseSchema: GenMessage<GetUsageResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 98);
+
+/**
+ * @generated from message chat.v1.Generation
+ */
+export type Generation = Message$1<"chat.v1.Generation"> & {
+  /**
+   * @generated from field: string event_id = 1;
+   */
+  eventId: string;
+
+  /**
+   * @generated from field: string conversation_id = 2;
+   */
+  conversationId: string;
+
+  /**
+   * @generated from field: string started_at = 3;
+   */
+  startedAt: string;
+};
+
+/**
+ * Describes the message chat.v1.Generation.
+ * Use `create(GenerationSchema)` to create a new message.
+ */
+export const GenerationSchema: GenMessage<Generation> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 99);
+
+/**
+ * @generated from message chat.v1.ListGenerationsRequest
+ */
+export type ListGenerationsRequest = Message$1<"chat.v1.ListGenerationsRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.ListGenerationsRequest.
+ * Use `create(ListGenerationsRequestSchema)` to create a new message.
+ */
+export const ListGenerationsRequestSchema: GenMessage<ListGenerationsRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 100);
+
+/**
+ * @generated from message chat.v1.ListGenerationsResponse
+ */
+export type ListGenerationsResponse = Message$1<"chat.v1.ListGenerationsResponse"> & {
+  /**
+   * @generated from field: repeated chat.v1.Generation generations = 1;
+   */
+  generations: Generation[];
+};
+
+/**
+ * Describes the message chat.v1.ListGenerationsResponse.
+ * Use `create(ListGenerationsResponseSchema)` to create a new message.
+ */
+export const ListGenerationsResponseSchema: GenMessage<ListGenerationsResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 101);
+
+/**
+ * @generated from message chat.v1.AnonymousRegisterRequest
+ */
+export type AnonymousRegisterRequest = Message$1<"chat.v1.AnonymousRegisterRequest"> & {
+};
+
+/**
+ * Describes the message chat.v1.AnonymousRegisterRequest.
+ * Use `create(AnonymousRegisterRequestSchema)` to create a new message.
+ */
+export const AnonymousRegisterRequestSchema: GenMessage<AnonymousRegisterRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 102);
+
+/**
+ * @generated from message chat.v1.AnonymousRegisterResponse
+ */
+export type AnonymousRegisterResponse = Message$1<"chat.v1.AnonymousRegisterResponse"> & {
+  /**
+   * @generated from field: string access_token = 1;
+   */
+  accessToken: string;
+};
+
+/**
+ * Describes the message chat.v1.AnonymousRegisterResponse.
+ * Use `create(AnonymousRegisterResponseSchema)` to create a new message.
+ */
+export const AnonymousRegisterResponseSchema: GenMessage<AnonymousRegisterResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 103);
+
+/**
+ * @generated from message chat.v1.RegisterRequest
+ */
+export type RegisterRequest = Message$1<"chat.v1.RegisterRequest"> & {
+  /**
+   * @generated from field: string email = 1;
+   */
+  email: string;
+
+  /**
+   * @generated from field: string password = 2;
+   */
+  password: string;
+};
+
+/**
+ * Describes the message chat.v1.RegisterRequest.
+ * Use `create(RegisterRequestSchema)` to create a new message.
+ */
+export const RegisterRequestSchema: GenMessage<RegisterRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 104);
+
+/**
+ * @generated from message chat.v1.RegisterResponse
+ */
+export type RegisterResponse = Message$1<"chat.v1.RegisterResponse"> & {
+  /**
+   * @generated from field: string access_token = 1;
+   */
+  accessToken: string;
+
+  /**
+   * @generated from field: string user_id = 2;
+   */
+  userId: string;
+};
+
+/**
+ * Describes the message chat.v1.RegisterResponse.
+ * Use `create(RegisterResponseSchema)` to create a new message.
+ */
+export const RegisterResponseSchema: GenMessage<RegisterResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 105);
+
+/**
+ * @generated from message chat.v1.LoginRequest
+ */
+export type LoginRequest = Message$1<"chat.v1.LoginRequest"> & {
+  /**
+   * @generated from field: string email = 1;
+   */
+  email: string;
+
+  /**
+   * @generated from field: string password = 2;
+   */
+  password: string;
+};
+
+/**
+ * Describes the message chat.v1.LoginRequest.
+ * Use `create(LoginRequestSchema)` to create a new message.
+ */
+export const LoginRequestSchema: GenMessage<LoginRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 106);
+
+/**
+ * @generated from message chat.v1.LoginResponse
+ */
+export type LoginResponse = Message$1<"chat.v1.LoginResponse"> & {
+  /**
+   * @generated from field: string access_token = 1;
    */
-  audio: Uint8Array;
+  accessToken: string;
+
+  /**
+   * @generated from field: string user_id = 2;
+   */
+  userId: string;
 };
 
 /**
- * Describes the message chat.v1.StreamTTSResponse.
- * Use `create(StreamTTSResponseSchema)` to create a new message.
+ * Describes the message chat.v1.LoginResponse.
+ * Use `create(LoginResponseSchema)` to create a new message.
  */
-export const StreamTTSResponseSchema: GenMessage<StreamTTSResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 20);
+export const LoginResponseSchema: GenMessage<LoginResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 107);
 
 /**
- * @generated from message chat.v1.SpeechToTextRequest
+ * @generated from message chat.v1.CreatePairingCodeRequest
  */
-export type SpeechToTextRequest = Message$1<"chat.v1.SpeechToTextRequest"> & {
-  /**
-   * @generated from field: bytes audio = 1;
-   */
-  audio: Uint8Array;
+export type CreatePairingCodeRequest = Message$1<"chat.v1.CreatePairingCodeRequest"> & {
 };
 
 /**
- * Describes the message chat.v1.SpeechToTextRequest.
- * Use `create(SpeechToTextRequestSchema)` to create a new message.
+ * Describes the message chat.v1.CreatePairingCodeRequest.
+ * Use `create(CreatePairingCodeRequestSchema)` to create a new message.
  */
-export const SpeechToTextRequestSchema: GenMessage<SpeechToTextRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 21);
+export const CreatePairingCodeRequestSchema: GenMessage<CreatePairingCodeRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 108);
 
 /**
- * @generated from message chat.v1.SpeechToTextResponse
+ * @generated from message chat.v1.CreatePairingCodeResponse
  */
-export type SpeechToTextResponse = Message$1<"chat.v1.SpeechToTextResponse"> & {
+export type CreatePairingCodeResponse = Message$1<"chat.v1.CreatePairingCodeResponse"> & {
   /**
-   * @generated from field: string text = 1;
+   * @generated from field: string code = 1;
    */
-  text: string;
+  code: string;
+
+  /**
+   * @generated from field: string expires_at = 2;
+   */
+  expiresAt: string;
 };
 
 /**
- * Describes the message chat.v1.SpeechToTextResponse.
- * Use `create(SpeechToTextResponseSchema)` to create a new message.
+ * Describes the message chat.v1.CreatePairingCodeResponse.
+ * Use `create(CreatePairingCodeResponseSchema)` to create a new message.
  */
-export const SpeechToTextResponseSchema: GenMessage<SpeechToTextResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 22);
+export const CreatePairingCodeResponseSchema: GenMessage<CreatePairingCodeResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 109);
 
 /**
- * @generated from message chat.v1.AnonymousRegisterRequest
+ * @generated from message chat.v1.RedeemPairingCodeRequest
  */
-export type AnonymousRegisterRequest = Message$1<"chat.v1.AnonymousRegisterRequest"> & {
+export type RedeemPairingCodeRequest = Message$1<"chat.v1.RedeemPairingCodeRequest"> & {
+  /**
+   * @generated from field: string code = 1;
+   */
+  code: string;
 };
 
 /**
- * Describes the message chat.v1.AnonymousRegisterRequest.
- * Use `create(AnonymousRegisterRequestSchema)` to create a new message.
+ * Describes the message chat.v1.RedeemPairingCodeRequest.
+ * Use `create(RedeemPairingCodeRequestSchema)` to create a new message.
  */
-export const AnonymousRegisterRequestSchema: GenMessage<AnonymousRegisterRequest> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 23);
+export const RedeemPairingCodeRequestSchema: GenMessage<RedeemPairingCodeRequest> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 110);
 
 /**
- * @generated from message chat.v1.AnonymousRegisterResponse
+ * @generated from message chat.v1.RedeemPairingCodeResponse
  */
-export type AnonymousRegisterResponse = Message$1<"chat.v1.AnonymousRegisterResponse"> & {
+export type RedeemPairingCodeResponse = Message$1<"chat.v1.RedeemPairingCodeResponse"> & {
   /**
    * @generated from field: string access_token = 1;
    */
   accessToken: string;
+
+  /**
+   * @generated from field: string user_id = 2;
+   */
+  userId: string;
 };
 
 /**
- * Describes the message chat.v1.AnonymousRegisterResponse.
- * Use `create(AnonymousRegisterResponseSchema)` to create a new message.
+ * Describes the message chat.v1.RedeemPairingCodeResponse.
+ * Use `create(RedeemPairingCodeResponseSchema)` to create a new message.
  */
-export const AnonymousRegisterResponseSchema: GenMessage<AnonymousRegisterResponse> = /*@__PURE__*/
-  messageDesc(file_chat_v1_chat, 24);
+export const RedeemPairingCodeResponseSchema: GenMessage<RedeemPairingCodeResponse> = /*@__PURE__*/
+  messageDesc(file_chat_v1_chat, 111);
+
+/**
+ * @generated from enum chat.v1.ModelTask
+ */
+export enum ModelTask {
+  /**
+   * @generated from enum value: MODEL_TASK_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * @generated from enum value: MODEL_TASK_TEXT_GENERATION = 1;
+   */
+  TEXT_GENERATION = 1,
+
+  /**
+   * @generated from enum value: MODEL_TASK_SPEECH_RECOGNITION = 2;
+   */
+  SPEECH_RECOGNITION = 2,
+
+  /**
+   * @generated from enum value: MODEL_TASK_TEXT_TO_SPEECH = 3;
+   */
+  TEXT_TO_SPEECH = 3,
+}
+
+/**
+ * Describes the enum chat.v1.ModelTask.
+ */
+export const ModelTaskSchema: GenEnum<ModelTask> = /*@__PURE__*/
+  enumDesc(file_chat_v1_chat, 0);
+
+/**
+ * @generated from enum chat.v1.PricingTier
+ */
+export enum PricingTier {
+  /**
+   * @generated from enum value: PRICING_TIER_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * @generated from enum value: PRICING_TIER_LOW = 1;
+   */
+  LOW = 1,
+
+  /**
+   * @generated from enum value: PRICING_TIER_MEDIUM = 2;
+   */
+  MEDIUM = 2,
+
+  /**
+   * @generated from enum value: PRICING_TIER_HIGH = 3;
+   */
+  HIGH = 3,
+}
+
+/**
+ * Describes the enum chat.v1.PricingTier.
+ */
+export const PricingTierSchema: GenEnum<PricingTier> = /*@__PURE__*/
+  enumDesc(file_chat_v1_chat, 1);
+
+/**
+ * @generated from enum chat.v1.MessageStatus
+ */
+export enum MessageStatus {
+  /**
+   * @generated from enum value: MESSAGE_STATUS_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * @generated from enum value: MESSAGE_STATUS_COMPLETE = 1;
+   */
+  COMPLETE = 1,
+
+  /**
+   * @generated from enum value: MESSAGE_STATUS_CANCELLED = 2;
+   */
+  CANCELLED = 2,
+
+  /**
+   * @generated from enum value: MESSAGE_STATUS_ERROR = 3;
+   */
+  ERROR = 3,
+
+  /**
+   * Stopped at the completion token limit.
+   *
+   * @generated from enum value: MESSAGE_STATUS_TRUNCATED = 4;
+   */
+  TRUNCATED = 4,
+}
+
+/**
+ * Describes the enum chat.v1.MessageStatus.
+ */
+export const MessageStatusSchema: GenEnum<MessageStatus> = /*@__PURE__*/
+  enumDesc(file_chat_v1_chat, 2);
+
+/**
+ * @generated from enum chat.v1.ExportFormat
+ */
+export enum ExportFormat {
+  /**
+   * @generated from enum value: EXPORT_FORMAT_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * @generated from enum value: EXPORT_FORMAT_MARKDOWN = 1;
+   */
+  MARKDOWN = 1,
+
+  /**
+   * @generated from enum value: EXPORT_FORMAT_JSON = 2;
+   */
+  JSON = 2,
+
+  /**
+   * @generated from enum value: EXPORT_FORMAT_OPENAI = 3;
+   */
+  OPENAI = 3,
+}
+
+/**
+ * Describes the enum chat.v1.ExportFormat.
+ */
+export const ExportFormatSchema: GenEnum<ExportFormat> = /*@__PURE__*/
+  enumDesc(file_chat_v1_chat, 3);
 
 /**
  * @generated from service chat.v1.ChatService
@@ -528,6 +2915,230 @@ export const ChatService: GenService<{
     input: typeof ListMessagesRequestSchema;
     output: typeof ListMessagesResponseSchema;
   },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListMessageVersions
+   */
+  listMessageVersions: {
+    methodKind: "unary";
+    input: typeof ListMessageVersionsRequestSchema;
+    output: typeof ListMessageVersionsResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.SwitchMessageVersion
+   */
+  switchMessageVersion: {
+    methodKind: "unary";
+    input: typeof SwitchMessageVersionRequestSchema;
+    output: typeof SwitchMessageVersionResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.SearchMessages
+   */
+  searchMessages: {
+    methodKind: "unary";
+    input: typeof SearchMessagesRequestSchema;
+    output: typeof SearchMessagesResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ExportConversation
+   */
+  exportConversation: {
+    methodKind: "unary";
+    input: typeof ExportConversationRequestSchema;
+    output: typeof ExportConversationResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ExportAllConversations
+   */
+  exportAllConversations: {
+    methodKind: "unary";
+    input: typeof ExportAllConversationsRequestSchema;
+    output: typeof ExportAllConversationsResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ImportConversation
+   */
+  importConversation: {
+    methodKind: "unary";
+    input: typeof ImportConversationRequestSchema;
+    output: typeof ImportConversationResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ShareConversation
+   */
+  shareConversation: {
+    methodKind: "unary";
+    input: typeof ShareConversationRequestSchema;
+    output: typeof ShareConversationResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListShares
+   */
+  listShares: {
+    methodKind: "unary";
+    input: typeof ListSharesRequestSchema;
+    output: typeof ListSharesResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.RevokeShare
+   */
+  revokeShare: {
+    methodKind: "unary";
+    input: typeof RevokeShareRequestSchema;
+    output: typeof RevokeShareResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UploadAttachment
+   */
+  uploadAttachment: {
+    methodKind: "unary";
+    input: typeof UploadAttachmentRequestSchema;
+    output: typeof UploadAttachmentResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.GetAttachment
+   */
+  getAttachment: {
+    methodKind: "unary";
+    input: typeof GetAttachmentRequestSchema;
+    output: typeof GetAttachmentResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.GetSettings
+   */
+  getSettings: {
+    methodKind: "unary";
+    input: typeof GetSettingsRequestSchema;
+    output: typeof GetSettingsResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UpdateSettings
+   */
+  updateSettings: {
+    methodKind: "unary";
+    input: typeof UpdateSettingsRequestSchema;
+    output: typeof UpdateSettingsResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UpdateConversationParameters
+   */
+  updateConversationParameters: {
+    methodKind: "unary";
+    input: typeof UpdateConversationParametersRequestSchema;
+    output: typeof UpdateConversationParametersResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UpdateConversationSystemPrompt
+   */
+  updateConversationSystemPrompt: {
+    methodKind: "unary";
+    input: typeof UpdateConversationSystemPromptRequestSchema;
+    output: typeof UpdateConversationSystemPromptResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListPersonas
+   */
+  listPersonas: {
+    methodKind: "unary";
+    input: typeof ListPersonasRequestSchema;
+    output: typeof ListPersonasResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.CreatePersona
+   */
+  createPersona: {
+    methodKind: "unary";
+    input: typeof CreatePersonaRequestSchema;
+    output: typeof CreatePersonaResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UpdatePersona
+   */
+  updatePersona: {
+    methodKind: "unary";
+    input: typeof UpdatePersonaRequestSchema;
+    output: typeof UpdatePersonaResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.DeletePersona
+   */
+  deletePersona: {
+    methodKind: "unary";
+    input: typeof DeletePersonaRequestSchema;
+    output: typeof DeletePersonaResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListMemories
+   */
+  listMemories: {
+    methodKind: "unary";
+    input: typeof ListMemoriesRequestSchema;
+    output: typeof ListMemoriesResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.AddMemory
+   */
+  addMemory: {
+    methodKind: "unary";
+    input: typeof AddMemoryRequestSchema;
+    output: typeof AddMemoryResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.DeleteMemory
+   */
+  deleteMemory: {
+    methodKind: "unary";
+    input: typeof DeleteMemoryRequestSchema;
+    output: typeof DeleteMemoryResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.UploadDocument
+   */
+  uploadDocument: {
+    methodKind: "unary";
+    input: typeof UploadDocumentRequestSchema;
+    output: typeof UploadDocumentResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListDocuments
+   */
+  listDocuments: {
+    methodKind: "unary";
+    input: typeof ListDocumentsRequestSchema;
+    output: typeof ListDocumentsResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.DeleteDocument
+   */
+  deleteDocument: {
+    methodKind: "unary";
+    input: typeof DeleteDocumentRequestSchema;
+    output: typeof DeleteDocumentResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.StreamChat
+   */
+  streamChat: {
+    methodKind: "server_streaming";
+    input: typeof StreamChatRequestSchema;
+    output: typeof ChatEventSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.Regenerate
+   */
+  regenerate: {
+    methodKind: "server_streaming";
+    input: typeof RegenerateRequestSchema;
+    output: typeof ChatEventSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.Continue
+   */
+  continue: {
+    methodKind: "server_streaming";
+    input: typeof ContinueRequestSchema;
+    output: typeof ChatEventSchema;
+  },
   /**
    * @generated from rpc chat.v1.ChatService.StreamTTS
    */
@@ -544,6 +3155,22 @@ export const ChatService: GenService<{
     input: typeof SpeechToTextRequestSchema;
     output: typeof SpeechToTextResponseSchema;
   },
+  /**
+   * @generated from rpc chat.v1.ChatService.GetUsage
+   */
+  getUsage: {
+    methodKind: "unary";
+    input: typeof GetUsageRequestSchema;
+    output: typeof GetUsageResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.ListGenerations
+   */
+  listGenerations: {
+    methodKind: "unary";
+    input: typeof ListGenerationsRequestSchema;
+    output: typeof ListGenerationsResponseSchema;
+  },
   /**
    * @generated from rpc chat.v1.ChatService.AnonymousRegister
    */
@@ -552,6 +3179,38 @@ export const ChatService: GenService<{
     input: typeof AnonymousRegisterRequestSchema;
     output: typeof AnonymousRegisterResponseSchema;
   },
+  /**
+   * @generated from rpc chat.v1.ChatService.Register
+   */
+  register: {
+    methodKind: "unary";
+    input: typeof RegisterRequestSchema;
+    output: typeof RegisterResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.Login
+   */
+  login: {
+    methodKind: "unary";
+    input: typeof LoginRequestSchema;
+    output: typeof LoginResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.CreatePairingCode
+   */
+  createPairingCode: {
+    methodKind: "unary";
+    input: typeof CreatePairingCodeRequestSchema;
+    output: typeof CreatePairingCodeResponseSchema;
+  },
+  /**
+   * @generated from rpc chat.v1.ChatService.RedeemPairingCode
+   */
+  redeemPairingCode: {
+    methodKind: "unary";
+    input: typeof RedeemPairingCodeRequestSchema;
+    output: typeof RedeemPairingCodeResponseSchema;
+  },
 }> = /*@__PURE__*/
   serviceDesc(file_chat_v1_chat, 0);
 
@@ -0,0 +1,107 @@
+import type * as schema from "drizzle/schema";
+
+import { DEFAULT_CONTEXT_WINDOW } from "~/context-window";
+import { findModel } from "~/model-catalog";
+
+export const DEFAULT_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+
+// melotts has one voice per language.
+export const TTS_VOICES = ["en", "es", "fr", "zh", "jp", "kr"];
+
+export const DEFAULT_TTS_VOICE = "en";
+
+const DEFAULT_GENERATION_PARAMETERS: schema.GenerationParameters = {
+	maxCompletionTokens: 10000,
+	reasoningEffort: "low",
+};
+
+export type ResolvedGenerationParameters = {
+	model: string;
+	// From the model catalog; bounds both the reply and the history.
+	contextWindow: number;
+	temperature?: number;
+	topP?: number;
+	maxCompletionTokens: number;
+	reasoningEffort?: NonNullable<schema.GenerationParameters["reasoningEffort"]>;
+};
+
+export type ResolvedGeneration =
+	| { success: true; parameters: ResolvedGenerationParameters }
+	| { success: false; error: string };
+
+/**
+ * Takes each parameter from the first layer that sets it: the request, the
+ * conversation, the user's settings, then the defaults. A value the model
+ * can't take is an error when the request asked for it; inherited values are
+ * fitted to the model instead, so a saved preference doesn't break other
+ * models.
+ */
+export async function resolveGenerationParameters(
+	env: Env,
+	model: string,
+	{
+		request = {},
+		conversation,
+		user,
+	}: {
+		request?: schema.GenerationParameters;
+		conversation?: schema.GenerationParameters | null;
+		user?: schema.GenerationParameters | null;
+	},
+): Promise<ResolvedGeneration> {
+	const inherited = {
+		...DEFAULT_GENERATION_PARAMETERS,
+		...withoutUndefined(user ?? {}),
+		...withoutUndefined(conversation ?? {}),
+	};
+	const info = await findModel(env, model, "text-generation").catch(
+		() => undefined,
+	);
+
+	const contextWindow = info?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+	// At most half the context window goes to the reply, as in
+	// `getHistoryBudget`.
+	const maxCompletionTokens = Math.floor(contextWindow / 2);
+	if (
+		request.maxCompletionTokens !== undefined &&
+		request.maxCompletionTokens > maxCompletionTokens
+	) {
+		return {
+			success: false,
+			error: `maxCompletionTokens can be at most ${maxCompletionTokens} for ${model}`,
+		};
+	}
+	// Without a catalog entry the model's reasoning support is unknown, so
+	// the effort is passed through as before.
+	const reasoning = info?.reasoning ?? true;
+	if (request.reasoningEffort !== undefined && !reasoning) {
+		return {
+			success: false,
+			error: `${model} does not take a reasoning effort`,
+		};
+	}
+
+	const parameters = { ...inherited, ...withoutUndefined(request) };
+	return {
+		success: true,
+		parameters: {
+			model,
+			contextWindow,
+			temperature: parameters.temperature,
+			topP: parameters.topP,
+			maxCompletionTokens: Math.min(
+				parameters.maxCompletionTokens ?? maxCompletionTokens,
+				maxCompletionTokens,
+			),
+			reasoningEffort: reasoning ? parameters.reasoningEffort : undefined,
+		},
+	};
+}
+
+// Protobuf and JSON leave unset fields as undefined keys, which would
+// otherwise shadow the layers below when spread.
+function withoutUndefined(parameters: schema.GenerationParameters) {
+	return Object.fromEntries(
+		Object.entries(parameters).filter(([, value]) => value !== undefined),
+	) as schema.GenerationParameters;
+}
@@ -1,9 +1,23 @@
 export { WorkersAIDurableObject } from "~/durable";
+import { resolveAccessToken } from "~/auth";
 import { handler } from "~/connect";
+import { openAIErrorResponse } from "~/openai-compat";
+import { getShareKey } from "~/share";
+
+function withCorsHeaders(response: Response, origin: string | null) {
+	const corsHeaders = new Headers(response.headers);
+	corsHeaders.set("Access-Control-Allow-Origin", origin ?? "*");
+	return new Response(response.body, {
+		headers: corsHeaders,
+		status: response.status,
+		statusText: response.statusText,
+	});
+}
 
 export default {
 	async fetch(request, env, ctx): Promise<Response> {
 		const { pathname } = new URL(request.url);
+		const origin = request.headers.get("Origin");
 		if (request.method === "GET" && pathname === "/websocket") {
 			const upgradeHeader = request.headers.get("Upgrade");
 			if (upgradeHeader !== "websocket") {
@@ -16,16 +30,56 @@ export default {
 			if (!accessToken) {
 				return new Response("Unauthorized", { status: 401 });
 			}
-			const token = await env.KV.get(`anonymous_access_token:${accessToken}`);
-			if (!token) {
+			const session = await resolveAccessToken(accessToken);
+			if (!session) {
 				return new Response("Unauthorized", { status: 401 });
 			}
-			const id: DurableObjectId =
-				env.WORKERS_AI_DURABLE_OBJECT.idFromName(accessToken);
+			const id: DurableObjectId = env.WORKERS_AI_DURABLE_OBJECT.idFromName(
+				session.userId,
+			);
 			const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
 			return stub.fetch(request);
 		}
-		const origin = request.headers.get("Origin");
+		if (
+			request.method !== "OPTIONS" &&
+			(pathname === "/v1/chat/completions" || pathname === "/v1/models")
+		) {
+			const accessToken = request.headers
+				.get("Authorization")
+				?.match(/^Bearer (.+)$/)?.[1];
+			const session = accessToken
+				? await resolveAccessToken(accessToken)
+				: null;
+			if (!session) {
+				return withCorsHeaders(
+					openAIErrorResponse(
+						401,
+						"Invalid or missing access token.",
+						"invalid_request_error",
+					),
+					origin,
+				);
+			}
+			const id: DurableObjectId = env.WORKERS_AI_DURABLE_OBJECT.idFromName(
+				session.userId,
+			);
+			const stub = env.WORKERS_AI_DURABLE_OBJECT.get(id);
+			return withCorsHeaders(await stub.fetch(request), origin);
+		}
+		const shareMatch = pathname.match(/^\/share\/([\w-]+)$/);
+		if (request.method === "GET" && shareMatch) {
+			const snapshot = await env.KV.get(getShareKey(shareMatch[1]));
+			if (!snapshot) {
+				return new Response("Not found", { status: 404 });
+			}
+			return new Response(snapshot, {
+				headers: {
+					"Content-Type": "application/json",
+					"Access-Control-Allow-Origin": "*",
+					"Cache-Control": "public, max-age=60",
+				},
+			});
+		}
 		if (request.method === "OPTIONS" && origin) {
 			return new Response(null, {
 				headers: {
@@ -36,13 +90,6 @@ export default {
 				},
 			});
 		}
-		const response = await handler.fetch(request, env, ctx);
-		const corsHeaders = new Headers(response.headers);
-		corsHeaders.set("Access-Control-Allow-Origin", origin ?? "*");
-		return new Response(response.body, {
-			headers: corsHeaders,
-			status: response.status,
-			statusText: response.statusText,
-		});
+		return withCorsHeaders(await handler.fetch(request, env, ctx), origin);
 	},
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,78 @@
+/**
+ * Helpers for walking a conversation's message tree. Every message points at
+ * the message it follows; regenerations and edits become siblings that share
+ * a parent. All helpers expect `messages` in creation order.
+ */
+
+type TreeMessage = {
+	id: string;
+	parent_id: string | null;
+};
+
+export function getPath<T extends TreeMessage>(
+	messages: T[],
+	leafId: string | null,
+): T[] {
+	const byId = new Map(messages.map((message) => [message.id, message]));
+	const path: T[] = [];
+	const seen = new Set<string>();
+	let current = leafId ? byId.get(leafId) : undefined;
+	while (current && !seen.has(current.id)) {
+		seen.add(current.id);
+		path.push(current);
+		current = current.parent_id ? byId.get(current.parent_id) : undefined;
+	}
+	return path.reverse();
+}
+
+export function getSiblings<T extends TreeMessage>(
+	messages: T[],
+	messageId: string,
+): T[] {
+	const message = messages.find(({ id }) => id === messageId);
+	if (!message) {
+		return [];
+	}
+	return messages.filter(({ parent_id }) => parent_id === message.parent_id);
+}
+
+/** Follows the most recent child at every step down from `messageId`. */
+export function getLatestLeaf<T extends TreeMessage>(
+	messages: T[],
+	messageId: string,
+): string {
+	const latestChild = new Map<string, string>();
+	for (const message of messages) {
+		if (message.parent_id) {
+			latestChild.set(message.parent_id, message.id);
+		}
+	}
+	const seen = new Set<string>();
+	let leafId = messageId;
+	while (latestChild.has(leafId) && !seen.has(leafId)) {
+		seen.add(leafId);
+		leafId = latestChild.get(leafId) as string;
+	}
+	return leafId;
+}
+
+/** Annotates each message in `subset` with its position among its siblings. */
+export function withVersions<T extends TreeMessage>(
+	messages: T[],
+	subset: T[],
+) {
+	const siblingIds = new Map<string | null, string[]>();
+	for (const message of messages) {
+		const ids = siblingIds.get(message.parent_id) ?? [];
+		ids.push(message.id);
+		siblingIds.set(message.parent_id, ids);
+	}
+	return subset.map((message) => {
+		const ids = siblingIds.get(message.parent_id) ?? [message.id];
+		return {
+			...message,
+			sibling_count: ids.length,
+			sibling_index: ids.indexOf(message.id),
+		};
+	});
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+
+/**
+ * The Workers AI models clients can pick from, with what each one can do.
+ * The catalog is cached in KV and refreshed once it is older than
+ * `MODEL_CATALOG_TTL_MS`; a stale copy is still served if Workers AI can't
+ * be reached.
+ */
+
+const MODEL_CATALOG_KEY = "model_catalog";
+
+const MODEL_CATALOG_TTL_MS = 60 * 60 * 1000;
+
+// The model search is paged and returns only the first page by default.
+const MODEL_SEARCH_PAGE_SIZE = 50;
+
+export type ModelTask =
+	| "text-generation"
+	| "speech-recognition"
+	| "text-to-speech";
+
+// Workers AI task names, as `env.AI.models` filters them.
+const WORKERS_AI_TASKS: Record<ModelTask, string> = {
+	"text-generation": "Text Generation",
+	"speech-recognition": "Automatic Speech Recognition",
+	"text-to-speech": "Text-to-Speech",
+};
+
+// Capabilities the model search doesn't report.
+const VISION_MODELS = [
+	"@cf/meta/llama-4-scout-17b-16e-instruct",
+	"@cf/meta/llama-3.2-11b-vision-instruct",
+	"@cf/mistralai/mistral-small-3.1-24b-instruct",
+	"@cf/google/gemma-3-12b-it",
+];
+
+const REASONING_MODELS = [
+	"@cf/qwen/qwq-32b",
+	"@cf/deepseek-ai/deepseek-r1-distill-qwen-32b",
+];
+
+const ModelInfoSchema = z.object({
+	id: z.string(),
+	// What requests pass as `model`, e.g. "@cf/meta/llama-3.1-8b-instruct".
+	name: z.string(),
+	description: z.string(),
+	task: z.enum(["text-generation", "speech-recognition", "text-to-speech"]),
+	contextWindow: z.number().int().nullable(),
+	functionCalling: z.boolean(),
+	vision: z.boolean(),
+	reasoning: z.boolean(),
+	// From the output token price: under $0.50, under $2 or above per million
+	// tokens. Null for models not priced per token.
+	pricingTier: z.enum(["low", "medium", "high"]).nullable(),
+	beta: z.boolean(),
+});
+
+export type ModelInfo = z.infer<typeof ModelInfoSchema>;
+
+const ModelCatalogSchema = z.object({
+	fetchedAt: z.number(),
+	models: z.array(ModelInfoSchema),
+});
+
+type ModelCatalog = z.infer<typeof ModelCatalogSchema>;
+
+// Saves a KV read on every request within one isolate.
+let cachedCatalog: ModelCatalog | null = null;
+
+export async function getModelCatalog(env: Env): Promise<ModelInfo[]> {
+	const now = Date.now();
+	if (cachedCatalog && now - cachedCatalog.fetchedAt < MODEL_CATALOG_TTL_MS) {
+		return cachedCatalog.models;
+	}
+	const stored = ModelCatalogSchema.safeParse(
+		await env.KV.get(MODEL_CATALOG_KEY, "json"),
+	);
+	if (stored.success && now - stored.data.fetchedAt < MODEL_CATALOG_TTL_MS) {
+		cachedCatalog = stored.data;
+		return stored.data.models;
+	}
+	try {
+		const catalog: ModelCatalog = {
+			fetchedAt: now,
+			models: await fetchModels(env),
+		};
+		await env.KV.put(MODEL_CATALOG_KEY, JSON.stringify(catalog));
+		cachedCatalog = catalog;
+		return catalog.models;
+	} catch (error) {
+		if (stored.success) {
+			console.warn(
+				"Failed to refresh the model catalog, serving stale:",
+				error,
+			);
+			cachedCatalog = stored.data;
+			return stored.data.models;
+		}
+		throw error;
+	}
+}
+
+export async function findModel(env: Env, name: string, task: ModelTask) {
+	const models = await getModelCatalog(env);
+	return models.find((model) => model.name === name && model.task === task);
+}
+
+/**
+ * Checks a chat request against the model's capabilities. Returns why it
+ * can't be served, or null. An unreachable catalog lets every request through
+ * rather than blocking chat.
+ */
+export async function validateChatRequest(
+	env: Env,
+	{
+		model,
+		hasTools,
+		hasImages,
+	}: { model: string; hasTools: boolean; hasImages: boolean },
+) {
+	let info: ModelInfo | undefined;
+	try {
+		info = await findModel(env, model, "text-generation");
+	} catch (error) {
+		console.warn("Model catalog unavailable, skipping validation:", error);
+		return null;
+	}
+	if (!info) {
+		return `Unknown model: ${model}`;
+	}
+	if (hasTools && !info.functionCalling) {
+		return `${model} does not support function calling`;
+	}
+	if (hasImages && !info.vision) {
+		return `${model} does not accept images`;
+	}
+	return null;
+}
+
+async function fetchModels(env: Env) {
+	const models: ModelInfo[] = [];
+	for (const [task, workersAITask] of Object.entries(WORKERS_AI_TASKS)) {
+		for (const model of await searchModels(env, workersAITask)) {
+			const properties = new Map<string, unknown>(
+				model.properties.map(({ property_id, value }) => [property_id, value]),
+			);
+			const isTextGeneration = task === "text-generation";
+			const contextWindow = Number(properties.get("context_window"));
+			models.push({
+				id: model.id,
+				name: model.name,
+				description: model.description,
+				task: task as ModelTask,
+				contextWindow:
+					isTextGeneration &&
+					Number.isInteger(contextWindow) &&
+					contextWindow > 0
+						? contextWindow
+						: null,
+				functionCalling: properties.get("function_calling") === "true",
+				vision: VISION_MODELS.includes(model.name),
+				reasoning: REASONING_MODELS.includes(model.name),
+				pricingTier: getPricingTier(properties.get("price")),
+				beta: properties.get("beta") === "true",
+			});
+		}
+	}
+	return models;
+}
+
+async function searchModels(env: Env, task: string) {
+	const models: AiModelsSearchObject[] = [];
+	for (let page = 1; ; page++) {
+		const results = await env.AI.models({
+			task,
+			page,
+			per_page: MODEL_SEARCH_PAGE_SIZE,
+		});
+		// Read until an empty page, in case the API caps `per_page` lower, or
+		// a repeated one, in case it ignores `page`.
+		if (results.length === 0 || models.some(({ id }) => id === results[0].id)) {
+			return models;
+		}
+		models.push(...results);
+	}
+}
+
+const PriceSchema = z.array(
+	z.object({ unit: z.string(), price: z.number() }).passthrough(),
+);
+
+function getPricingTier(value: unknown): ModelInfo["pricingTier"] {
+	let parsed: unknown = value;
+	if (typeof value === "string") {
+		try {
+			parsed = JSON.parse(value);
+		} catch {
+			return null;
+		}
+	}
+	const prices = PriceSchema.safeParse(parsed);
+	if (!prices.success) {
+		return null;
+	}
+	const output = prices.data.find(({ unit }) =>
+		/output tokens/i.test(unit),
+	)?.price;
+	if (output === undefined) {
+		return null;
+	}
+	return output < 0.5 ? "low" : output < 2 ? "medium" : "high";
+}
@@ -0,0 +1,46 @@
+import { z } from "zod";
+
+import { OpenAIMessageSchema } from "~/export";
+import { ToolSchema } from "~/schemas";
+
+/**
+ * Request handling shared by the OpenAI-compatible `/v1` endpoints. Only the
+ * parameters Workers AI understands are accepted; anything else is ignored.
+ */
+
+// Saves the exchange into the most recently updated conversation with this
+// title, creating it if needed.
+export const CONVERSATION_NAME_HEADER = "X-Conversation-Name";
+
+export const ChatCompletionRequestSchema = z.object({
+	model: z.string().min(1),
+	messages: z.array(OpenAIMessageSchema).min(1),
+	stream: z.boolean().optional(),
+	stream_options: z.object({ include_usage: z.boolean().optional() }).nullish(),
+	tools: z.array(ToolSchema).optional(),
+	temperature: z.number().optional(),
+	top_p: z.number().optional(),
+	max_tokens: z.number().int().positive().optional(),
+	max_completion_tokens: z.number().int().positive().optional(),
+	frequency_penalty: z.number().optional(),
+	presence_penalty: z.number().optional(),
+	seed: z.number().int().optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+
+export function openAIErrorResponse(
+	status: number,
+	message: string,
+	type: string,
+	headers?: HeadersInit,
+) {
+	return Response.json(
+		{ error: { message, type, param: null, code: null } },
+		{ status, headers },
+	);
+}
+
+export function toServerSentEvent(data: unknown) {
+	return `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,45 @@
+import type { z } from "zod";
+
+/**
+ * Page tokens are opaque to clients: base64url encoded JSON that is validated
+ * against a zod schema when it comes back.
+ */
+
+export function encodePageToken(value: unknown) {
+	return btoa(JSON.stringify(value))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+export function decodePageToken<T>(token: string, schema: z.ZodType<T>) {
+	if (!token) {
+		return null;
+	}
+	try {
+		const json = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+		const result = schema.safeParse(JSON.parse(json));
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export function getPageSize(requested: number) {
+	if (requested <= 0) {
+		return DEFAULT_PAGE_SIZE;
+	}
+	return Math.min(requested, MAX_PAGE_SIZE);
+}
+
+/**
+ * For RPCs that returned everything before they were paged: an unset size
+ * still does, so clients that never follow `next_page_token` keep seeing
+ * every item. Null means no limit.
+ */
+export function getListPageSize(requested: number) {
+	return requested > 0 ? Math.min(requested, MAX_PAGE_SIZE) : null;
+}
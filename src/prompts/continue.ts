@@ -0,0 +1,3 @@
+export function getContinuationPrompt() {
+	return "Your previous answer was cut off. Continue it from exactly where it stopped, without repeating any of it or mentioning the interruption.";
+}
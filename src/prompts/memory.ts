@@ -0,0 +1,12 @@
+export function getMemoryExtractionPrompt(existingMemories: string[]) {
+	return `You keep long-term notes about a user across their conversations with an AI assistant.
+From the exchange below, pick out durable facts worth remembering in future conversations: the user's background, tools and tech stack, ongoing projects, and stated preferences about how they want answers.
+Skip one-off questions, anything only about this task, and anything already noted. Write each fact as one short sentence about the user in the third person. Return JSON like {"memories": ["..."]}, with an empty list when there is nothing new.
+${existingMemories.length > 0 ? `\nAlready noted:\n${existingMemories.map((memory) => `- ${memory}`).join("\n")}\n` : ""}`;
+}
+
+export function getMemorySystemPrompt(memories: string[]) {
+	return `What you remember about the user from earlier conversations:
+${memories.map((memory) => `- ${memory}`).join("\n")}
+Use this when it is relevant, without mentioning that you remember it unless asked.`;
+}
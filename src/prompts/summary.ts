@@ -0,0 +1,7 @@
+export function getConversationSummaryPrompt(previousSummary: string | null) {
+	return `You are maintaining a running summary of a conversation between a user and an AI assistant.
+The summary replaces the older turns when the conversation no longer fits in the model's context, so keep every fact, decision, requirement, name, number and code detail that later turns may depend on.
+Write it in the third person, in the conversation's language, as compact prose or bullet points. Return JSON like {"summary": "..."}.
+${previousSummary ? `\nCurrent summary, which the new turns continue:\n${previousSummary}\n` : ""}
+Fold the following turns into the summary.`;
+}
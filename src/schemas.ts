@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+import { MESSAGE_STATUSES } from "drizzle/schema";
+
+/**
+ * Zod schemas shared by the WebSocket protocol, the export format and the
+ * OpenAI-compatible API, which all speak OpenAI's tool and content shapes.
+ */
+
+export const ToolSchema = z.object({
+	type: z.literal("function"),
+	function: z.object({
+		name: z.string(),
+		description: z.string().optional(),
+		parameters: z.record(z.unknown()).optional(),
+		strict: z.boolean().nullable().optional(),
+	}),
+});
+
+export const ToolCallSchema = z.object({
+	id: z.string(),
+	type: z.literal("function"),
+	function: z.object({
+		name: z.string(),
+		arguments: z.string(),
+	}),
+});
+
+export const TextContentPartSchema = z.object({
+	type: z.literal("text"),
+	text: z.string(),
+});
+
+// Message content as stored, with images referring to attachments.
+export const MessageContentPartSchema = z.discriminatedUnion("type", [
+	TextContentPartSchema,
+	z.object({ type: z.literal("image"), attachment_id: z.string() }),
+]);
+
+export const MessageStatusSchema = z.enum(MESSAGE_STATUSES);
+
+// Overrides for a request, or defaults stored with a conversation, persona or
+// the user's settings. Model-specific limits are checked when a request is
+// served.
+export const GenerationParametersSchema = z.object({
+	temperature: z.number().min(0).max(2).optional(),
+	topP: z.number().gt(0).max(1).optional(),
+	maxCompletionTokens: z.number().int().positive().optional(),
+	reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
+});
+
+/** One line per issue, prefixed with the path to the offending field. */
+export function formatZodError(error: z.ZodError) {
+	return error.issues
+		.map(({ path, message }) =>
+			path.length > 0 ? `${path.join(".")}: ${message}` : message,
+		)
+		.join("; ");
+}
@@ -0,0 +1,40 @@
+/**
+ * Delimiters FTS5 wraps matched terms in. Message content is arbitrary text,
+ * so any fixed marker could already appear in it; a random one per search
+ * can't.
+ */
+export function createSnippetMarkers() {
+	const nonce = crypto.randomUUID();
+	return { start: `[mark:${nonce}]`, end: `[/mark:${nonce}]` };
+}
+
+/**
+ * Turns free text into an FTS5 query that matches all terms, the last one as
+ * a prefix so results show up while typing. Every term is quoted, so FTS5
+ * operators and punctuation in the input are matched literally.
+ */
+export function toFtsQuery(query: string) {
+	const terms = query
+		.split(/\s+/)
+		.filter(Boolean)
+		.map((term) => `"${term.replace(/"/g, '""')}"`);
+	if (terms.length === 0) {
+		return null;
+	}
+	terms[terms.length - 1] += "*";
+	return terms.join(" ");
+}
+
+/** Escapes a snippet for HTML and wraps the matched terms in `<mark>`. */
+export function renderSnippet(
+	snippet: string,
+	markers: ReturnType<typeof createSnippetMarkers>,
+) {
+	return snippet
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replaceAll(markers.start, "<mark>")
+		.replaceAll(markers.end, "</mark>");
+}
@@ -0,0 +1,19 @@
+/**
+ * Shared conversations are immutable snapshots in KV, readable by anyone with
+ * the share id through `GET /share/:id`.
+ */
+
+export type ShareSnapshot = {
+	id: string;
+	title: string | null;
+	sharedAt: string;
+	messages: Array<{
+		role: "user" | "assistant";
+		content: string;
+		createdAt: string | null;
+	}>;
+};
+
+export function getShareKey(shareId: string) {
+	return `share:${shareId}`;
+}
@@ -1,7 +1,5 @@
 import { createContextKey } from "@connectrpc/connect";
 
-type User = {
-	accessToken: string;
-};
+import type { Session } from "~/auth";
 
-export const userStore = createContextKey<User | undefined>(undefined);
+export const userStore = createContextKey<Session | undefined>(undefined);
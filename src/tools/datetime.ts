@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { defineTool } from "~/tools/registry";
+
+export const getCurrentDateTime = defineTool({
+	name: "get_current_datetime",
+	description:
+		"Get the current date and time, optionally in a specific IANA time zone such as Europe/Berlin.",
+	parameters: z.object({
+		timeZone: z
+			.string()
+			.nullable()
+			.describe("IANA time zone name, or null for UTC"),
+	}),
+	async execute({ timeZone }) {
+		const now = new Date();
+		const zone = timeZone ?? "UTC";
+		return {
+			iso: now.toISOString(),
+			timeZone: zone,
+			local: now.toLocaleString("en-US", {
+				timeZone: zone,
+				dateStyle: "full",
+				timeStyle: "long",
+			}),
+		};
+	},
+});
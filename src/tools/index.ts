@@ -0,0 +1,4 @@
+import { getCurrentDateTime } from "~/tools/datetime";
+import { createToolRegistry } from "~/tools/registry";
+
+export const serverTools = createToolRegistry([getCurrentDateTime]);
@@ -0,0 +1,80 @@
+import { zodFunction } from "openai/helpers/zod";
+import type {
+	ChatCompletionMessageToolCall,
+	ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import type { z } from "zod";
+
+export type ToolContext = {
+	env: Env;
+	conversationId: string;
+};
+
+export type ServerTool<Parameters extends z.ZodTypeAny = z.ZodTypeAny> = {
+	name: string;
+	description: string;
+	parameters: Parameters;
+	execute(args: z.infer<Parameters>, ctx: ToolContext): Promise<unknown>;
+};
+
+export function defineTool<Parameters extends z.ZodTypeAny>(
+	tool: ServerTool<Parameters>,
+): ServerTool<Parameters> {
+	return tool;
+}
+
+export function createToolRegistry(tools: ServerTool[]) {
+	const byName = new Map(tools.map((tool) => [tool.name, tool]));
+	const definitions: ChatCompletionTool[] = tools.map((tool) =>
+		zodFunction({
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.parameters,
+		}),
+	);
+	return {
+		definitions() {
+			return definitions;
+		},
+		has(name: string) {
+			return byName.has(name);
+		},
+		// Failures are returned to the model as the tool result instead of being
+		// thrown, so it can correct its arguments or explain the problem.
+		async execute(
+			toolCall: ChatCompletionMessageToolCall,
+			ctx: ToolContext,
+		): Promise<string> {
+			const tool = byName.get(toolCall.function.name);
+			if (!tool) {
+				return JSON.stringify({
+					error: `Unknown tool: ${toolCall.function.name}`,
+				});
+			}
+			let rawArguments: unknown;
+			try {
+				rawArguments = JSON.parse(toolCall.function.arguments || "{}");
+			} catch {
+				return JSON.stringify({ error: "Arguments are not valid JSON" });
+			}
+			const parsedArguments = tool.parameters.safeParse(rawArguments);
+			if (!parsedArguments.success) {
+				return JSON.stringify({
+					error: "Invalid arguments",
+					issues: parsedArguments.error.issues,
+				});
+			}
+			try {
+				const result = await tool.execute(parsedArguments.data, ctx);
+				return typeof result === "string" ? result : JSON.stringify(result);
+			} catch (error) {
+				console.error(`Tool ${tool.name} failed:`, error);
+				return JSON.stringify({
+					error: error instanceof Error ? error.message : "Tool failed",
+				});
+			}
+		},
+	};
+}
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>;
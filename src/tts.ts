@@ -0,0 +1,171 @@
+/**
+ * Text-to-speech input preparation. Text is split into sentences, and
+ * sentences too long for one request into clauses, by punctuation rules of
+ * the voice's language instead of a model round trip, so the audio always
+ * says exactly the text it was given.
+ */
+
+export const TTS_MODEL = "@cf/myshell-ai/melotts";
+
+// MeloTTS slurs and drops words on long inputs.
+export const MAX_TTS_CHUNK_CHARACTERS = 250;
+
+// Matches the AI Gateway cache the synthesized audio used to rely on.
+export const TTS_CACHE_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Full-width punctuation ends a sentence or clause without a following
+// space, which is how Chinese and Japanese are written.
+const FULL_WIDTH_SENTENCE_ENDINGS = "。！？";
+const SENTENCE_ENDINGS = ".!?…";
+const CLOSING_MARKS = "\"')]}»”’」』）";
+
+// Written without spaces between words, so long clauses are cut anywhere.
+const UNSPACED_LANGUAGES = ["zh", "jp"];
+
+// Abbreviations whose period doesn't end a sentence, lowercased.
+const ABBREVIATIONS: Record<string, string[]> = {
+	en: [
+		"mr",
+		"mrs",
+		"ms",
+		"dr",
+		"prof",
+		"sr",
+		"jr",
+		"st",
+		"vs",
+		"etc",
+		"e.g",
+		"i.e",
+		"no",
+		"fig",
+	],
+	es: ["sr", "sra", "srta", "dr", "dra", "ud", "uds", "etc", "pág", "núm"],
+	fr: ["m", "mme", "mlle", "dr", "pr", "etc", "cf", "p.ex"],
+};
+
+export function segmentText(
+	text: string,
+	language: string,
+	maxCharacters = MAX_TTS_CHUNK_CHARACTERS,
+) {
+	const normalized = text.replace(/\s+/g, " ").trim();
+	if (!normalized) {
+		return [];
+	}
+	return splitSentences(normalized, language).flatMap((sentence) =>
+		splitLongSentence(sentence, language, maxCharacters),
+	);
+}
+
+export async function getTTSCacheKey(voice: string, text: string) {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(`${TTS_MODEL}\n${voice}\n${text}`),
+	);
+	const hash = Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+	return `tts:${hash}`;
+}
+
+function splitSentences(text: string, language: string) {
+	const sentences: string[] = [];
+	let start = 0;
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		const fullWidth = FULL_WIDTH_SENTENCE_ENDINGS.includes(char);
+		if (!fullWidth && !SENTENCE_ENDINGS.includes(char)) {
+			continue;
+		}
+		let end = index + 1;
+		while (
+			end < text.length &&
+			(SENTENCE_ENDINGS.includes(text[end]) ||
+				FULL_WIDTH_SENTENCE_ENDINGS.includes(text[end]))
+		) {
+			end++;
+		}
+		while (end < text.length && CLOSING_MARKS.includes(text[end])) {
+			end++;
+		}
+		// Latin punctuation only ends a sentence before a space, which keeps
+		// "3.14" and "example.com" whole.
+		const ends =
+			fullWidth ||
+			end === text.length ||
+			(text[end] === " " &&
+				!(char === "." && isAbbreviation(text.slice(start, index), language)));
+		if (ends) {
+			sentences.push(text.slice(start, end).trim());
+			start = end;
+		}
+		index = end - 1;
+	}
+	const rest = text.slice(start).trim();
+	if (rest) {
+		sentences.push(rest);
+	}
+	return sentences.filter(Boolean);
+}
+
+function isAbbreviation(textBefore: string, language: string) {
+	const word = textBefore.match(/(\S+)$/)?.[1]?.replace(/^[("'¿¡«“‘]+/, "");
+	if (!word) {
+		return false;
+	}
+	// A single capital is an initial, as in "J. Smith".
+	if (/^\p{Lu}$/u.test(word)) {
+		return true;
+	}
+	return (ABBREVIATIONS[language] ?? []).includes(word.toLowerCase());
+}
+
+function splitLongSentence(
+	sentence: string,
+	language: string,
+	maxCharacters: number,
+) {
+	if (sentence.length <= maxCharacters) {
+		return [sentence];
+	}
+	// Clauses keep their punctuation and the space after it.
+	const clauses = sentence.split(/(?<=[,;:] )|(?<= [—–] )|(?<=[，、；：])/);
+	return pack(clauses, maxCharacters).flatMap((piece) => {
+		if (piece.length <= maxCharacters) {
+			return [piece];
+		}
+		const words = UNSPACED_LANGUAGES.includes(language)
+			? Array.from(piece)
+			: piece.split(/(?<= )/);
+		return pack(words, maxCharacters).flatMap((part) =>
+			part.length <= maxCharacters ? [part] : cut(part, maxCharacters),
+		);
+	});
+}
+
+/** Joins consecutive pieces while they fit in `maxCharacters`. */
+function pack(pieces: string[], maxCharacters: number) {
+	const packed: string[] = [];
+	let current = "";
+	for (const piece of pieces) {
+		if (current && current.length + piece.length > maxCharacters) {
+			packed.push(current.trim());
+			current = "";
+		}
+		current += piece;
+	}
+	if (current.trim()) {
+		packed.push(current.trim());
+	}
+	return packed;
+}
+
+function cut(text: string, maxCharacters: number) {
+	const characters = Array.from(text);
+	const parts: string[] = [];
+	for (let start = 0; start < characters.length; start += maxCharacters) {
+		parts.push(characters.slice(start, start + maxCharacters).join(""));
+	}
+	return parts;
+}
@@ -0,0 +1,108 @@
+/**
+ * Per-user usage limits. Every limit comes from a Worker variable and a value
+ * of 0 turns it off. Daily counters reset at midnight UTC.
+ */
+
+export type UsageKind = "chat" | "tts" | "stt";
+
+export type UsageLimits = {
+	requestsPerMinute: number;
+	requestsPerDay: number;
+	tokensPerDay: number;
+	audioSecondsPerDay: number;
+};
+
+export type UsageTotals = {
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	audioSeconds: number;
+};
+
+export type UsageLimitExceeded = {
+	limit: keyof UsageLimits;
+	message: string;
+	retryAfterSeconds: number;
+};
+
+// MeloTTS and Whisper don't report durations, so speech is estimated at a
+// typical speaking rate of 150 words per minute.
+const SPOKEN_WORDS_PER_SECOND = 2.5;
+
+export function getUsageLimits(env: Env): UsageLimits {
+	return {
+		requestsPerMinute: Number(env.USAGE_LIMIT_REQUESTS_PER_MINUTE) || 0,
+		requestsPerDay: Number(env.USAGE_LIMIT_REQUESTS_PER_DAY) || 0,
+		tokensPerDay: Number(env.USAGE_LIMIT_TOKENS_PER_DAY) || 0,
+		audioSecondsPerDay: Number(env.USAGE_LIMIT_AUDIO_SECONDS_PER_DAY) || 0,
+	};
+}
+
+export function getUsageDay(now: Date) {
+	return now.toISOString().slice(0, 10);
+}
+
+export function estimateSpeechSeconds(text: string) {
+	return text.split(/\s+/).filter(Boolean).length / SPOKEN_WORDS_PER_SECOND;
+}
+
+/**
+ * Returns the first limit a new request of `kind` would go over, if any.
+ * `recentRequests` are the start times of requests in the last minute.
+ */
+export function findExceededLimit(
+	kind: UsageKind,
+	totals: UsageTotals,
+	recentRequests: number[],
+	limits: UsageLimits,
+	now: Date,
+): UsageLimitExceeded | null {
+	const secondsUntilTomorrow = Math.ceil(
+		(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) -
+			now.getTime()) /
+			1000,
+	);
+	if (
+		limits.requestsPerMinute > 0 &&
+		recentRequests.length >= limits.requestsPerMinute
+	) {
+		return {
+			limit: "requestsPerMinute",
+			message: `Rate limit of ${limits.requestsPerMinute} requests per minute exceeded`,
+			retryAfterSeconds: Math.max(
+				1,
+				Math.ceil((recentRequests[0] + 60_000 - now.getTime()) / 1000),
+			),
+		};
+	}
+	if (limits.requestsPerDay > 0 && totals.requests >= limits.requestsPerDay) {
+		return {
+			limit: "requestsPerDay",
+			message: `Daily limit of ${limits.requestsPerDay} requests reached`,
+			retryAfterSeconds: secondsUntilTomorrow,
+		};
+	}
+	if (
+		kind === "chat" &&
+		limits.tokensPerDay > 0 &&
+		totals.promptTokens + totals.completionTokens >= limits.tokensPerDay
+	) {
+		return {
+			limit: "tokensPerDay",
+			message: `Daily limit of ${limits.tokensPerDay} tokens reached`,
+			retryAfterSeconds: secondsUntilTomorrow,
+		};
+	}
+	if (
+		kind !== "chat" &&
+		limits.audioSecondsPerDay > 0 &&
+		totals.audioSeconds >= limits.audioSecondsPerDay
+	) {
+		return {
+			limit: "audioSecondsPerDay",
+			message: `Daily limit of ${limits.audioSecondsPerDay} seconds of audio reached`,
+			retryAfterSeconds: secondsUntilTomorrow,
+		};
+	}
+	return null;
+}
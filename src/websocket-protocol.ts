@@ -0,0 +1,407 @@
+import { z } from "zod";
+
+import {
+	formatZodError,
+	GenerationParametersSchema,
+	MessageContentPartSchema,
+	MessageStatusSchema,
+	TextContentPartSchema,
+	ToolCallSchema,
+	ToolSchema,
+} from "~/schemas";
+
+/**
+ * Messages exchanged over the chat WebSocket. A connection starts with a
+ * `hello` from the client listing the protocol versions it speaks; the server
+ * answers with the version it picked, or an `unsupported_protocol_version`
+ * error. Anything else sent before that is rejected with
+ * `handshake_required`.
+ */
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+// Answered by the runtime without waking a hibernated Durable Object, so the
+// client has to send exactly this frame.
+export const PING_FRAME = JSON.stringify({ type: "ping" });
+export const PONG_FRAME = JSON.stringify({ type: "pong" });
+
+const ContentPartSchema = z.discriminatedUnion("type", [
+	TextContentPartSchema,
+	// An attachment uploaded through the UploadAttachment RPC.
+	z.object({ type: z.literal("image"), attachmentId: z.string().min(1) }),
+]);
+
+const MessageContentSchema = z.union([
+	z.string(),
+	z.array(ContentPartSchema).min(1),
+]);
+
+const HelloSchema = z.object({
+	type: z.literal("hello"),
+	protocolVersions: z.array(z.number().int()).min(1),
+});
+
+const PingSchema = z.object({
+	type: z.literal("ping"),
+});
+
+const ChatStreamCreateSchema = z.object({
+	type: z.literal("chat.stream.create"),
+	eventId: z.string().min(1),
+	conversationId: z.string().min(1),
+	content: MessageContentSchema,
+	// Falls back to the user's default model.
+	model: z.string().min(1).optional(),
+	tools: z.array(ToolSchema).default([]),
+	parameters: GenerationParametersSchema.default({}),
+});
+
+const ChatStreamCancelSchema = z.object({
+	type: z.literal("chat.stream.cancel"),
+	eventId: z.string().min(1),
+	conversationId: z.string().min(1),
+});
+
+const ChatRegenerateSchema = z.object({
+	type: z.literal("chat.regenerate"),
+	eventId: z.string().min(1),
+	conversationId: z.string().min(1),
+	// Falls back to the user's default model.
+	model: z.string().min(1).optional(),
+	tools: z.array(ToolSchema).default([]),
+	parameters: GenerationParametersSchema.default({}),
+});
+
+const ChatMessageEditSchema = z.object({
+	type: z.literal("chat.message.edit"),
+	eventId: z.string().min(1),
+	conversationId: z.string().min(1),
+	messageId: z.string().min(1),
+	content: MessageContentSchema,
+	// Falls back to the user's default model.
+	model: z.string().min(1).optional(),
+	tools: z.array(ToolSchema).default([]),
+	parameters: GenerationParametersSchema.default({}),
+});
+
+// Appends to a cancelled, truncated or failed assistant message, streaming
+// the new text as ordinary deltas.
+const ChatContinueSchema = z.object({
+	type: z.literal("chat.continue"),
+	eventId: z.string().min(1),
+	conversationId: z.string().min(1),
+	messageId: z.string().min(1),
+	// Falls back to the model that wrote the message.
+	model: z.string().min(1).optional(),
+	parameters: GenerationParametersSchema.default({}),
+});
+
+const ChatStreamResumeSchema = z.object({
+	type: z.literal("chat.stream.resume"),
+	eventId: z.string().min(1),
+	// Highest sequence number the client has already received.
+	lastSequence: z.number().int().nonnegative(),
+});
+
+export const WebSocketClientMessageSchema = z.discriminatedUnion("type", [
+	HelloSchema,
+	PingSchema,
+	ChatStreamCreateSchema,
+	ChatStreamCancelSchema,
+	ChatRegenerateSchema,
+	ChatMessageEditSchema,
+	ChatContinueSchema,
+	ChatStreamResumeSchema,
+]);
+
+export type WebSocketHelloMessage = z.infer<typeof HelloSchema>;
+export type WebSocketChatStreamCreateMessage = z.infer<
+	typeof ChatStreamCreateSchema
+>;
+export type WebSocketChatStreamCancelMessage = z.infer<
+	typeof ChatStreamCancelSchema
+>;
+export type WebSocketChatRegenerateMessage = z.infer<
+	typeof ChatRegenerateSchema
+>;
+export type WebSocketChatMessageEditMessage = z.infer<
+	typeof ChatMessageEditSchema
+>;
+export type WebSocketChatContinueMessage = z.infer<typeof ChatContinueSchema>;
+export type WebSocketChatStreamResumeMessage = z.infer<
+	typeof ChatStreamResumeSchema
+>;
+export type WebSocketGenerationParameters = z.infer<
+	typeof GenerationParametersSchema
+>;
+export type WebSocketClientMessage = z.infer<
+	typeof WebSocketClientMessageSchema
+>;
+
+export const WebSocketErrorCodeSchema = z.enum([
+	"invalid_message",
+	"unsupported_protocol_version",
+	"handshake_required",
+	"invalid_argument",
+	"not_found",
+	"already_exists",
+	"failed_precondition",
+	"resource_exhausted",
+	"internal",
+]);
+
+export type WebSocketErrorCode = z.infer<typeof WebSocketErrorCodeSchema>;
+
+const ErrorSchema = z.object({
+	type: z.literal("error"),
+	// Null when the error isn't about a particular stream.
+	eventId: z.string().nullable(),
+	code: WebSocketErrorCodeSchema,
+	message: z.string(),
+});
+
+const StreamResponseSchema = z.object({
+	type: z.literal("chat.stream.response"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	content: z.string(),
+});
+
+// A document chunk quoted to the model; `index` is the number answers cite
+// it by.
+const CitationSchema = z.object({
+	index: z.number().int().positive(),
+	documentId: z.string(),
+	documentName: z.string(),
+	chunkId: z.string(),
+	chunkIndex: z.number().int().nonnegative(),
+	score: z.number(),
+});
+
+// How the final assistant message of a generation was produced. Token counts
+// are estimates when the model reported none, e.g. after a cancel.
+const GenerationMetadataSchema = z.object({
+	messageId: z.string(),
+	model: z.string(),
+	promptTokens: z.number().int().nonnegative(),
+	completionTokens: z.number().int().nonnegative(),
+	// Null when nothing was streamed.
+	timeToFirstTokenMs: z.number().int().nonnegative().nullable(),
+	latencyMs: z.number().int().nonnegative(),
+	finishReason: z.string().nullable(),
+	status: MessageStatusSchema,
+});
+
+const StreamDoneSchema = z.object({
+	type: z.literal("chat.stream.done"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	function_call: z
+		.object({
+			name: z.string(),
+			arguments: z.string(),
+		})
+		.nullable(),
+	citations: z.array(CitationSchema),
+	metadata: GenerationMetadataSchema,
+});
+
+const ToolCallEventSchema = z.object({
+	type: z.literal("chat.tool.call"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	toolCallId: z.string(),
+	name: z.string(),
+	arguments: z.string(),
+});
+
+const ToolResultEventSchema = z.object({
+	type: z.literal("chat.tool.result"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	toolCallId: z.string(),
+	name: z.string(),
+	result: z.string(),
+});
+
+const ConversationTitleSchema = z.object({
+	type: z.literal("conversation.title.update"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	title: z.string(),
+});
+
+const UsageLimitExceededSchema = z.object({
+	type: z.literal("usage.limit.exceeded"),
+	eventId: z.string(),
+	conversationId: z.string(),
+	limit: z.enum([
+		"requestsPerMinute",
+		"requestsPerDay",
+		"tokensPerDay",
+		"audioSecondsPerDay",
+	]),
+	message: z.string(),
+	retryAfterSeconds: z.number(),
+});
+
+/** Events of a single generation, replayable through `chat.stream.resume`. */
+export const WebSocketStreamEventSchema = z.discriminatedUnion("type", [
+	StreamResponseSchema,
+	StreamDoneSchema,
+	ToolCallEventSchema,
+	ToolResultEventSchema,
+	ConversationTitleSchema,
+	UsageLimitExceededSchema,
+	ErrorSchema,
+]);
+
+// Every event of a stream is numbered so a reconnecting client can ask for
+// the ones it missed.
+export const WebSocketSequencedEventSchema = WebSocketStreamEventSchema.and(
+	z.object({ sequence: z.number().int().positive() }),
+);
+
+const ConversationSchema = z.object({
+	id: z.string(),
+	user_id: z.string(),
+	title: z.string().nullable(),
+	pinned: z.boolean().nullable(),
+	active_message_id: z.string().nullable(),
+	system_prompt: z.string().nullable(),
+	persona_id: z.string().nullable(),
+	model: z.string().nullable(),
+	generation: GenerationParametersSchema.nullable(),
+	created_at: z.string().nullable(),
+	updated_at: z.string().nullable(),
+});
+
+const MessageSchema = z.object({
+	id: z.string(),
+	user_id: z.string(),
+	conversation_id: z.string(),
+	parent_id: z.string().nullable(),
+	role: z.enum(["user", "assistant", "tool"]),
+	content: z.string(),
+	tool_calls: z.array(ToolCallSchema).nullable(),
+	tool_call_id: z.string().nullable(),
+	content_parts: z.array(MessageContentPartSchema).nullable(),
+	model: z.string().nullable(),
+	prompt_tokens: z.number().int().nullable(),
+	completion_tokens: z.number().int().nullable(),
+	time_to_first_token_ms: z.number().int().nullable(),
+	latency_ms: z.number().int().nullable(),
+	finish_reason: z.string().nullable(),
+	status: MessageStatusSchema.nullable(),
+	created_at: z.string().nullable(),
+	updated_at: z.string().nullable(),
+});
+
+/**
+ * Change notifications sent to every socket of the user, whichever socket or
+ * RPC caused the change.
+ */
+export const WebSocketBroadcastMessageSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("conversation.created"),
+		conversation: ConversationSchema,
+	}),
+	z.object({
+		type: z.literal("conversation.updated"),
+		conversation: ConversationSchema,
+	}),
+	z.object({
+		type: z.literal("conversation.deleted"),
+		conversationId: z.string(),
+	}),
+	z.object({
+		type: z.literal("message.created"),
+		conversationId: z.string(),
+		message: MessageSchema,
+	}),
+	z.object({
+		type: z.literal("message.updated"),
+		conversationId: z.string(),
+		message: MessageSchema,
+	}),
+]);
+
+const HelloAckSchema = z.object({
+	type: z.literal("hello"),
+	protocolVersion: z.number().int(),
+});
+
+const PongSchema = z.object({
+	type: z.literal("pong"),
+});
+
+export const WebSocketServerMessageSchema = z.union([
+	WebSocketSequencedEventSchema,
+	WebSocketBroadcastMessageSchema,
+	HelloAckSchema,
+	PongSchema,
+	ErrorSchema,
+]);
+
+export type WebSocketErrorMessage = z.infer<typeof ErrorSchema>;
+export type WebSocketStreamMessage = z.infer<typeof StreamResponseSchema>;
+export type WebSocketStreamDoneMessage = z.infer<typeof StreamDoneSchema>;
+export type WebSocketCitation = z.infer<typeof CitationSchema>;
+export type WebSocketGenerationMetadata = z.infer<
+	typeof GenerationMetadataSchema
+>;
+export type WebSocketToolCallMessage = z.infer<typeof ToolCallEventSchema>;
+export type WebSocketToolResultMessage = z.infer<typeof ToolResultEventSchema>;
+export type WebSocketStreamEvent = z.infer<typeof WebSocketStreamEventSchema>;
+export type WebSocketSequencedEvent = z.infer<
+	typeof WebSocketSequencedEventSchema
+>;
+export type WebSocketBroadcastMessage = z.infer<
+	typeof WebSocketBroadcastMessageSchema
+>;
+export type WebSocketHelloAckMessage = z.infer<typeof HelloAckSchema>;
+export type WebSocketServerMessage = z.infer<
+	typeof WebSocketServerMessageSchema
+>;
+
+/** Stored on each socket, so it survives hibernation. */
+export type WebSocketAttachment = {
+	protocolVersion: number;
+};
+
+export type ParsedClientMessage =
+	| { success: true; message: WebSocketClientMessage }
+	| { success: false; eventId: string | null; error: string };
+
+export function parseClientMessage(frame: string): ParsedClientMessage {
+	let json: unknown;
+	try {
+		json = JSON.parse(frame);
+	} catch {
+		return { success: false, eventId: null, error: "Frame is not valid JSON." };
+	}
+	const result = WebSocketClientMessageSchema.safeParse(json);
+	if (result.success) {
+		return { success: true, message: result.data };
+	}
+	const eventId =
+		typeof json === "object" &&
+		json !== null &&
+		"eventId" in json &&
+		typeof json.eventId === "string"
+			? json.eventId
+			: null;
+	return {
+		success: false,
+		eventId,
+		error: formatZodError(result.error),
+	};
+}
+
+/** The highest version both sides speak, or null if there is none. */
+export function negotiateProtocolVersion(clientVersions: number[]) {
+	const shared = clientVersions.filter((version) =>
+		SUPPORTED_PROTOCOL_VERSIONS.includes(version),
+	);
+	return shared.length > 0 ? Math.max(...shared) : null;
+}
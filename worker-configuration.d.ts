@@ -8,6 +8,11 @@ declare namespace Cloudflare {
 		CLOUDFLARE_AI_GATEWAY_ID: string;
 		CLOUDFLARE_AI_GATEWAY_TOKEN: string;
 		CLOUDFLARE_WORKERS_AI_TOKEN: string;
+		USAGE_LIMIT_REQUESTS_PER_MINUTE: 20;
+		USAGE_LIMIT_REQUESTS_PER_DAY: 1000;
+		USAGE_LIMIT_TOKENS_PER_DAY: 2000000;
+		USAGE_LIMIT_AUDIO_SECONDS_PER_DAY: 3600;
+		MAX_CONCURRENT_GENERATIONS: 3;
 		WORKERS_AI_DURABLE_OBJECT: DurableObjectNamespace<
 			import("./src/index").WorkersAIDurableObject
 		>;